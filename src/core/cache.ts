@@ -0,0 +1,401 @@
+import type {
+    AroundInterceptor,
+    CacheableOptions,
+    CacheCounters,
+    CacheEvictOptions,
+    CacheHit,
+    CacheKeyResolver,
+    CacheStats,
+    CacheStore,
+    InvocationContext,
+    LruCacheOptions,
+} from "../types";
+import type { Container } from "./container";
+import { InjectionToken } from "./injection-token";
+import { applyLifecycle } from "./life-cycle";
+import { getCacheableOptions, getCacheEvictOptions } from "../decorators/cache";
+import { Inject, Optional } from "../decorators/inject";
+
+/**
+ * Token do armazenamento usado por @Cacheable e @CacheEvict
+ * Sem outro provedor registrado, o LruCacheStore em memória é usado
+ */
+export const CACHE_STORE = new InjectionToken<CacheStore>("CACHE_STORE");
+
+/**
+ * Token das opções do LruCacheStore (tamanho máximo e ttl padrão)
+ *
+ * @example
+ * ```typescript
+ * container.register(CACHE_OPTIONS, { useValue: { maxEntries: 500, ttl: 60_000 } });
+ * ```
+ */
+export const CACHE_OPTIONS = new InjectionToken<LruCacheOptions>(
+    "CACHE_OPTIONS"
+);
+
+/** Tamanho máximo padrão do LruCacheStore */
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Valor armazenado por @Cacheable, que indica se o método retornava uma Promise
+ * @private
+ */
+interface CachedValue {
+    value: unknown;
+    async: boolean;
+}
+
+/**
+ * Verifica se um valor é uma Promise (ou thenable)
+ * @private
+ */
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+    return (
+        (typeof value === "object" || typeof value === "function") &&
+        value !== null &&
+        typeof (value as PromiseLike<unknown>).then === "function"
+    );
+}
+
+/**
+ * Continua com o valor, aguardando-o apenas quando é uma Promise
+ * Mantém síncronas as chamadas a métodos e stores síncronos
+ * @private
+ */
+function chain<T>(
+    value: T | PromiseLike<T>,
+    next: (value: T) => unknown
+): unknown {
+    return isPromiseLike(value) ? value.then(next) : next(value);
+}
+
+/**
+ * Aguarda as operações assíncronas de uma lista, se houver
+ * @private
+ */
+function settleAll(results: unknown[]): Promise<void> | void {
+    if (results.some(isPromiseLike)) {
+        return Promise.all(results).then(() => undefined);
+    }
+}
+
+/**
+ * Gera a chave de cache a partir dos argumentos
+ * @private
+ */
+function resolveKey(
+    resolver: CacheKeyResolver | undefined,
+    args: unknown[]
+): string {
+    const key = resolver ? resolver(...args) : args;
+    return typeof key === "string" ? key : String(JSON.stringify(key));
+}
+
+/**
+ * Consolida contadores por nome de cache em estatísticas; contadores com o
+ * mesmo nome (ex.: de interceptadores de containers diferentes) são somados
+ *
+ * @param entries - Pares [nome do cache, contadores]
+ * @returns Totais, taxa de acerto e contadores por cache
+ *
+ * @example
+ * ```typescript
+ * summarizeCacheCounters([["users", { hits: 3, misses: 1, evictions: 0 }]]);
+ * // { hits: 3, misses: 1, evictions: 0, hitRate: 0.75, caches: { users: {...} } }
+ * ```
+ */
+export function summarizeCacheCounters(
+    entries: Iterable<[string, CacheCounters]>
+): CacheStats {
+    const caches: Record<string, CacheCounters> = {};
+    const totals: CacheCounters = { hits: 0, misses: 0, evictions: 0 };
+
+    for (const [name, counters] of entries) {
+        const current = (caches[name] ??= { hits: 0, misses: 0, evictions: 0 });
+        current.hits += counters.hits;
+        current.misses += counters.misses;
+        current.evictions += counters.evictions;
+        totals.hits += counters.hits;
+        totals.misses += counters.misses;
+        totals.evictions += counters.evictions;
+    }
+
+    const lookups = totals.hits + totals.misses;
+    return {
+        ...totals,
+        hitRate: lookups ? totals.hits / lookups : 0,
+        caches,
+    };
+}
+
+/**
+ * Armazenamento em memória com descarte das entradas menos usadas (LRU) e
+ * expiração por ttl. É o CACHE_STORE padrão quando nenhum outro é registrado
+ * (ver registerCacheProviders())
+ *
+ * @example
+ * ```typescript
+ * const store = new LruCacheStore({ maxEntries: 2 });
+ * store.set('a', 1);
+ * store.get('a'); // { value: 1 }
+ * ```
+ */
+export class LruCacheStore implements CacheStore {
+    /** Entradas em ordem de uso (a mais antiga primeiro) */
+    private readonly entries = new Map<
+        string,
+        { value: unknown; expiresAt?: number }
+    >();
+
+    /** Número máximo de entradas */
+    private readonly maxEntries: number;
+
+    /** Tempo de vida padrão, em ms */
+    private readonly ttl?: number;
+
+    /**
+     * @param options - Tamanho máximo e ttl padrão
+     */
+    constructor(
+        @Optional({}) @Inject(CACHE_OPTIONS) options: LruCacheOptions = {}
+    ) {
+        this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+        this.ttl = options.ttl;
+    }
+
+    /** Número de entradas armazenadas (incluindo expiradas ainda não removidas) */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    get(key: string): CacheHit | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+
+        if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+
+        // Move a entrada para o fim da fila (usada mais recentemente)
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return { value: entry.value };
+    }
+
+    set(key: string, value: unknown, ttl = this.ttl): void {
+        this.entries.delete(key);
+        this.entries.set(key, {
+            value,
+            expiresAt: ttl ? Date.now() + ttl : undefined,
+        });
+
+        for (const oldest of this.entries.keys()) {
+            if (this.entries.size <= this.maxEntries) break;
+            this.entries.delete(oldest);
+        }
+    }
+
+    delete(key: string): void {
+        this.entries.delete(key);
+    }
+
+    clear(prefix?: string): void {
+        if (prefix === undefined) {
+            this.entries.clear();
+            return;
+        }
+        for (const key of this.entries.keys()) {
+            if (key.startsWith(prefix)) this.entries.delete(key);
+        }
+    }
+}
+
+/**
+ * Interceptador que implementa @Cacheable e @CacheEvict
+ * Vinculado automaticamente pelos decorators e registrado por
+ * registerCacheProviders(); mantém as estatísticas de uso exibidas em Container.getStats()
+ */
+export class CacheInterceptor implements AroundInterceptor {
+    /** Contadores por nome de cache */
+    private readonly counters = new Map<string, CacheCounters>();
+
+    /** Caches com escopo de requisição, descartados ao final de cada requisição */
+    private readonly requestStores = new Map<string, LruCacheStore>();
+
+    /**
+     * @param store - Armazenamento compartilhado, resolvido no primeiro uso: um
+     * CACHE_STORE registrado depois do interceptador substitui o padrão
+     * @param options - Opções dos caches com escopo de requisição
+     */
+    constructor(
+        @Inject(CACHE_STORE, { lazy: true })
+        private readonly store: CacheStore,
+        @Optional({})
+        @Inject(CACHE_OPTIONS)
+        private readonly options: LruCacheOptions = {}
+    ) {}
+
+    around(context: InvocationContext, proceed: () => unknown): unknown {
+        const prototype = context.targetClass.prototype;
+        const cacheable = getCacheableOptions(prototype, context.methodName);
+        const evict = getCacheEvictOptions(prototype, context.methodName);
+
+        const invoke = () =>
+            cacheable ? this.cached(cacheable, context, proceed) : proceed();
+        if (!evict) return invoke();
+
+        if (evict.beforeInvocation) {
+            return chain(this.evict(evict, context), invoke);
+        }
+        // Invalida apenas quando o método termina com sucesso
+        return chain(invoke(), (result) =>
+            chain(this.evict(evict, context), () => result)
+        );
+    }
+
+    /**
+     * Obtém as estatísticas de uso dos caches
+     * @returns Totais, taxa de acerto e contadores por cache
+     */
+    getStats(): CacheStats {
+        return summarizeCacheCounters(this.counters);
+    }
+
+    /**
+     * Retorna o valor em cache ou executa o método e armazena o resultado
+     * Fora de um escopo de requisição, caches com scope "request" não armazenam
+     * @private
+     */
+    private cached(
+        options: CacheableOptions,
+        context: InvocationContext,
+        proceed: () => unknown
+    ): unknown {
+        const name =
+            options.name ??
+            `${context.targetClass.name}.${String(context.methodName)}`;
+        const store =
+            options.scope === "request"
+                ? this.getRequestStore(context.requestId)
+                : this.store;
+        if (!store) return proceed();
+
+        const key = `${name}:${resolveKey(options.key, context.args)}`;
+        return chain(store.get(key), (hit) => {
+            const counters = this.getCounters(name);
+            if (hit) {
+                counters.hits++;
+                const cached = hit.value as CachedValue;
+                return cached.async
+                    ? Promise.resolve(cached.value)
+                    : cached.value;
+            }
+
+            counters.misses++;
+            const result = proceed();
+            if (isPromiseLike(result)) {
+                return result.then((value) =>
+                    chain(
+                        store.set(key, { value, async: true }, options.ttl),
+                        () => value
+                    )
+                );
+            }
+            return chain(
+                store.set(key, { value: result, async: false }, options.ttl),
+                () => result
+            );
+        });
+    }
+
+    /**
+     * Remove as entradas indicadas por @CacheEvict do cache compartilhado e do
+     * cache da requisição atual
+     * @private
+     */
+    private evict(
+        options: CacheEvictOptions,
+        context: InvocationContext
+    ): Promise<void> | void {
+        this.getCounters(options.name).evictions++;
+
+        const stores: CacheStore[] = [this.store];
+        const requestStore =
+            context.requestId !== undefined
+                ? this.requestStores.get(context.requestId)
+                : undefined;
+        if (requestStore) stores.push(requestStore);
+
+        if (options.allEntries) {
+            return settleAll(
+                stores.map((store) => store.clear(`${options.name}:`))
+            );
+        }
+        const key = `${options.name}:${resolveKey(options.key, context.args)}`;
+        return settleAll(stores.map((store) => store.delete(key)));
+    }
+
+    /**
+     * Obtém (ou cria) o cache de uma requisição, descartado por cleanupRequest()
+     * @private
+     */
+    private getRequestStore(requestId?: string): LruCacheStore | undefined {
+        if (requestId === undefined) return undefined;
+
+        let store = this.requestStores.get(requestId);
+        if (!store) {
+            store = new LruCacheStore(this.options);
+            this.requestStores.set(requestId, store);
+            applyLifecycle(
+                {
+                    onDestroy: () => {
+                        this.requestStores.delete(requestId);
+                    },
+                },
+                "request",
+                requestId,
+                { initialize: false }
+            );
+        }
+        return store;
+    }
+
+    /**
+     * Obtém os contadores de um cache
+     * @private
+     */
+    private getCounters(name: string): CacheCounters {
+        let counters = this.counters.get(name);
+        if (!counters) {
+            counters = { hits: 0, misses: 0, evictions: 0 };
+            this.counters.set(name, counters);
+        }
+        return counters;
+    }
+}
+
+/**
+ * Registra o CacheInterceptor e, se nenhum CACHE_STORE estiver registrado, o
+ * LruCacheStore como armazenamento padrão
+ * Chamado por scanAndRegister(), scanModule() e pelo módulo de testes; containers
+ * criados manualmente que usam @Cacheable ou @CacheEvict devem chamá-lo
+ *
+ * @param container - Container que recebe os componentes de cache
+ *
+ * @example
+ * ```typescript
+ * const container = new Container();
+ * registerCacheProviders(container);
+ * container.resolve(CACHE_STORE); // LruCacheStore
+ * ```
+ */
+export function registerCacheProviders(container: Container): void {
+    if (!container.has(CacheInterceptor)) {
+        container.register(CacheInterceptor, { useClass: CacheInterceptor });
+    }
+    if (!container.has(CACHE_STORE)) {
+        container.register(CACHE_STORE, { useClass: LruCacheStore });
+    }
+}
@@ -1,17 +1,189 @@
 import { generateRequestId } from "../runtime/uuid";
-import type { Constructor, Provider, LifeCycleOpt } from "../types";
+import { createAsyncContext } from "../runtime/async-context";
+import type {
+    CacheStats,
+    ComponentCondition,
+    ConstructionMetrics,
+    Constructor,
+    ContainerEventListener,
+    ContainerEventMap,
+    ContainerOptions,
+    DependencyGraph,
+    DependencyGraphNode,
+    InjectableToken,
+    InjectionMetadata,
+    LeakReport,
+    Provider,
+    LifeCycleOpt,
+    RequestScopePolicy,
+    RequestScopeReport,
+    Stereotype,
+    Token,
+    ValidationReport,
+} from "../types";
 import { metadataRegistry } from "./metadata-registry";
-import { getServiceScope } from "../decorators/service";
-import { getProcessorScope } from "../decorators/processor";
+import { InjectionToken } from "./injection-token";
+import { resolveForwardRef } from "./forward-ref";
+import { QualifiedToken, qualify } from "./qualified-token";
+import { validateDependencyGraph } from "./validation";
+import { applyInterceptors, hasInterceptors } from "./interception";
+import { CacheInterceptor, summarizeCacheCounters } from "./cache";
+import {
+    getServiceBinding,
+    getServiceLifecycle,
+    getServiceScope,
+} from "../decorators/service";
+import {
+    getProcessorLifecycle,
+    getProcessorScope,
+} from "../decorators/processor";
+import { getUnmetConditions } from "../decorators/conditional";
+import { getDeclaringModule } from "../decorators/module";
+import {
+    getQualifier,
+    isPrimary,
+    selectPrimary,
+} from "../decorators/qualifier";
+import {
+    applyLifecycle,
+    cleanupRequest,
+    destroyInstance,
+    hasDestroyHooks,
+} from "./life-cycle";
+import {
+    getInjectionMetadata,
+    getPropertyInjectionMetadata,
+} from "../decorators/inject";
 
 /**
  * Interface para rastrear tentativas de resolução pendentes
  */
 interface PendingResolution {
-    token: Constructor | string | symbol;
+    token: Token;
     attempts: number;
     lastError: Error;
-    dependencies: Constructor[];
+    dependencies: Token[];
+}
+
+/**
+ * Chave usada nos caches de instâncias
+ * Provedores simples usam o próprio token; multi-provedores usam o objeto do provedor
+ */
+type CacheKey = Token | Provider;
+
+/**
+ * Contadores acumulados das métricas de construção de um token em um escopo
+ */
+interface ConstructionCounters {
+    instantiations: number;
+    totalTime: number;
+    ownTime: number;
+    maxTime: number;
+}
+
+/**
+ * Contexto com o ID da requisição atual, compartilhado por todos os containers
+ * Preenchido por Container.runInScope()
+ */
+const requestContext = createAsyncContext<string>();
+
+/** Tempo máximo padrão, em ms, para cada onInit assíncrono */
+const DEFAULT_INIT_TIMEOUT = 30_000;
+
+/** Política padrão de expiração e aviso dos escopos de requisição */
+const DEFAULT_REQUEST_SCOPE_POLICY: Required<RequestScopePolicy> = {
+    ttl: 5 * 60_000,
+    warnAfter: 60_000,
+};
+
+/** Intervalo mínimo, em ms, entre verificações automáticas de escopos expirados */
+const REQUEST_SCOPE_SWEEP_INTERVAL = 1_000;
+
+/**
+ * Escopos em execução por runInScope() (com o número de execuções aninhadas),
+ * compartilhado por todos os containers como o requestContext
+ */
+const activeScopes = new Map<string, number>();
+
+/**
+ * Containers com instâncias em cache em cada escopo de requisição
+ * Um escopo aberto em um container pode criar instâncias nos ancestrais ou em
+ * containers importados; todas são liberadas ao final de runInScope()
+ */
+const scopeContainers = new Map<string, Set<Container>>();
+
+/**
+ * Inicialização (onInit assíncrono) de cada instância, aguardada pelos seus
+ * dependentes, compartilhada por todos os containers
+ */
+const initializations = new WeakMap<object, Promise<void>>();
+
+/**
+ * Rejeita a Promise caso ela não seja concluída dentro do tempo limite
+ * @param promise - Promise monitorada
+ * @param ms - Tempo limite em ms (0 desabilita)
+ * @param message - Mensagem do erro de timeout
+ * @private
+ */
+function withTimeout<T>(
+    promise: Promise<T>,
+    ms: number,
+    message: string
+): Promise<T> {
+    if (!(ms > 0) || !Number.isFinite(ms)) return promise;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(message)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Verifica se um valor é uma Promise (ou thenable)
+ * @private
+ */
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+    return (
+        !!value &&
+        (typeof value === "object" || typeof value === "function") &&
+        typeof (value as PromiseLike<unknown>).then === "function"
+    );
+}
+
+/**
+ * Cria um proxy que só executa `resolve` no primeiro acesso e então
+ * encaminha todas as operações para a instância resolvida
+ * @private
+ */
+function createLazyProxy<T>(resolve: () => T): T {
+    let resolved = false;
+    let instance: any;
+    const target = (): any => {
+        if (!resolved) {
+            instance = resolve();
+            resolved = true;
+        }
+        return instance;
+    };
+
+    return new Proxy(Object.create(null), {
+        get(_, key) {
+            const value = Reflect.get(target(), key);
+            // Métodos são vinculados à instância real para preservar `this`
+            return typeof value === "function" ? value.bind(target()) : value;
+        },
+        set: (_, key, value) => Reflect.set(target(), key, value),
+        has: (_, key) => Reflect.has(target(), key),
+        deleteProperty: (_, key) => Reflect.deleteProperty(target(), key),
+        ownKeys: () => Reflect.ownKeys(target()),
+        getOwnPropertyDescriptor(_, key) {
+            const descriptor = Reflect.getOwnPropertyDescriptor(target(), key);
+            // O alvo do proxy não possui a propriedade, que deve ser configurável
+            return descriptor && { ...descriptor, configurable: true };
+        },
+        getPrototypeOf: () => Reflect.getPrototypeOf(target()),
+    });
 }
 
 /**
@@ -23,6 +195,10 @@ interface PendingResolution {
  * - transient: Nova instância a cada resolução
  * - request: Uma instância por requisição HTTP
  *
+ * Containers podem ser organizados em hierarquia via createChild():
+ * tokens desconhecidos são delegados ao container pai (ou ao container de
+ * origem de um token importado com importProvider())
+ *
  * @example
  * ```typescript
  * const container = new Container();
@@ -32,29 +208,207 @@ interface PendingResolution {
  */
 export class Container {
     /** Mapa de provedores registrados no container */
-    private providers = new Map<Constructor | string | symbol, Provider>();
+    private providers = new Map<Token, Provider>();
+
+    /** Mapa de multi-provedores (vários provedores para o mesmo token) */
+    private multiProviders = new Map<Token, Provider[]>();
 
     /** Cache de instâncias singleton */
-    private singletons = new Map<Constructor | string | symbol, any>();
+    private singletons = new Map<CacheKey, any>();
 
     /** Cache de instâncias por requisição (request-scoped) */
-    private requestInstances = new Map<
-        string,
-        Map<Constructor | string | symbol, any>
-    >();
+    private requestInstances = new Map<string, Map<CacheKey, any>>();
 
     /** Mapa de resoluções pendentes para evitar loops infinitos */
-    private pendingResolutions = new Map<
-        Constructor | string | symbol,
-        PendingResolution
-    >();
+    private pendingResolutions = new Map<Token, PendingResolution>();
 
     /** Stack de resolução atual para detectar dependências circulares */
-    private resolutionStack = new Set<Constructor | string | symbol>();
+    private resolutionStack = new Set<Token>();
 
     /** Flag para habilitar resolução atrasada */
     private enableDeferredResolution = true;
 
+    /** Containers filhos criados via createChild() */
+    private children = new Set<Container>();
+
+    /** Perfis ativos definidos neste container (undefined: herdados) */
+    private activeProfiles?: string[];
+
+    /** Dependências resolvidas por cada instância em construção (topo: a mais interna) */
+    private constructionStack: Set<object>[] = [];
+
+    /** Dependências diretas de cada instância criada por este container */
+    private instanceDependencies = new WeakMap<object, Set<object>>();
+
+    /** Instâncias criadas por este container que possuem hooks de destruição */
+    private disposables = new Set<object>();
+
+    /** Indica se o container já foi descartado */
+    private disposed = false;
+
+    /** Hooks onInit assíncronos ainda não concluídos (ou que falharam) */
+    private pendingInitializations = new Set<Promise<void>>();
+
+    /** Tokens importados de outros containers (ex.: exports de módulos importados) */
+    private importedTokens = new Map<Token, Container>();
+
+    /** Falhas de onInit ainda não reportadas por whenInitialized() */
+    private initializationFailures: { name: string; error: unknown }[] = [];
+
+    /** Tempo máximo para cada onInit assíncrono definido neste container (undefined: herdado) */
+    private initTimeout?: number;
+
+    /** Observadores registrados com onRegister, onBeforeResolve, onInstantiate e onResolveError */
+    private observers: {
+        [K in keyof ContainerEventMap]: Set<
+            ContainerEventListener<ContainerEventMap[K]>
+        >;
+    } = {
+        register: new Set(),
+        beforeResolve: new Set(),
+        instantiate: new Set(),
+        resolveError: new Set(),
+    };
+
+    /** Indica se as métricas de construção são coletadas */
+    private metricsEnabled: boolean;
+
+    /** Métricas de construção por token e escopo */
+    private metrics = new Map<Token, Map<LifeCycleOpt, ConstructionCounters>>();
+
+    /** Tempo gasto em construções aninhadas de cada instância em construção (topo: a mais interna) */
+    private timingStack: number[] = [];
+
+    /** Momento de criação de cada escopo de requisição com instâncias em cache */
+    private requestScopeCreatedAt = new Map<string, number>();
+
+    /** Escopos cujo ID foi gerado por uma resolução fora de qualquer escopo */
+    private generatedScopes = new Set<string>();
+
+    /** Escopos que já geraram aviso de longa duração */
+    private warnedScopes = new Set<string>();
+
+    /** Momento da última verificação de escopos expirados */
+    private lastScopeSweep = 0;
+
+    /** Número de escopos descartados por expiração */
+    private evictedScopes = 0;
+
+    /** Política de escopos de requisição definida neste container (campos ausentes: herdados) */
+    private requestScopePolicy?: RequestScopePolicy;
+
+    /**
+     * Cria um novo container
+     * @param parent - Container pai, ao qual tokens desconhecidos são delegados
+     * @param options - Opções do container (herdadas pelos filhos)
+     */
+    constructor(
+        private readonly parent?: Container,
+        private readonly options: ContainerOptions = {}
+    ) {
+        this.activeProfiles = options.profiles;
+        this.initTimeout = options.initTimeout;
+        this.metricsEnabled = options.metrics ?? false;
+        this.requestScopePolicy = options.requestScope;
+    }
+
+    /**
+     * Cria um container filho
+     * O filho delega ao pai os tokens que não conhece, pode sobrescrever provedores
+     * individualmente, mantém seu próprio cache de singletons e pode ser descartado
+     * de forma independente. Classes decoradas que nenhum ancestral registrou são
+     * auto-registradas no próprio filho, enxergando seus provedores sobrescritos
+     * (exceto com `declaredOnly`)
+     * @param options - Opções que substituem as herdadas do pai
+     * @returns Novo container filho
+     *
+     * @example
+     * ```typescript
+     * const tenant = GlobalContainer.createChild();
+     * tenant.register(TenantConfig, { useValue: { id: 'acme' } });
+     * const billing = tenant.resolve(BillingService);
+     *
+     * // Ao final do uso
+     * await tenant.dispose();
+     * ```
+     */
+    createChild(options: ContainerOptions = {}): Container {
+        this.assertNotDisposed();
+        const child = new Container(this, { ...this.options, ...options });
+        this.children.add(child);
+        return child;
+    }
+
+    /**
+     * Verifica se existe provedor registrado para o token neste container ou em seus ancestrais
+     * Não considera classes que apenas poderiam ser auto-registradas
+     * @param token - Token a ser verificado
+     * @returns true se houver provedor registrado
+     *
+     * @example
+     * ```typescript
+     * if (!container.has(Mailer)) {
+     *   container.register(Mailer, { useClass: ConsoleMailer });
+     * }
+     * ```
+     */
+    has(token: Token): boolean {
+        return (
+            this.hasOwnProvider(token) ||
+            !!this.importedTokens.get(token)?.has(token) ||
+            !!this.parent?.has(token)
+        );
+    }
+
+    /**
+     * Importa um token de outro container, que passa a resolvê-lo para este
+     * O container de origem mantém o provedor, o cache de instâncias e os escopos
+     * Provedores registrados neste container têm precedência sobre importações
+     * @param token - Token importado
+     * @param source - Container que registrou o provedor do token
+     *
+     * @example
+     * ```typescript
+     * const users = GlobalContainer.createChild();
+     * users.register(UserService, { useClass: UserService });
+     *
+     * const billing = GlobalContainer.createChild();
+     * billing.importProvider(UserService, users);
+     * billing.resolve(UserService) === users.resolve(UserService); // true
+     * ```
+     */
+    importProvider(token: Token, source: Container): void {
+        this.assertNotDisposed(token);
+        if (source === this) {
+            throw new Error(
+                `Token ${this.getTokenName(token)} não pode ser importado do próprio container`
+            );
+        }
+        this.importedTokens.set(token, source);
+    }
+
+    /**
+     * Verifica se o token possui provedor registrado neste container
+     * @private
+     */
+    private hasOwnProvider(token: Token): boolean {
+        return this.providers.has(token) || this.multiProviders.has(token);
+    }
+
+    /**
+     * Obtém o container ao qual a resolução do token deve ser delegada: o de
+     * origem de uma importação ou o pai (undefined se o token é deste container
+     * ou desconhecido)
+     * @private
+     */
+    private getDelegate(token: Token): Container | undefined {
+        if (this.hasOwnProvider(token)) return undefined;
+
+        const source = this.importedTokens.get(token);
+        if (source?.has(token)) return source;
+        return this.parent?.has(token) ? this.parent : undefined;
+    }
+
     /**
      * Registra um provedor no container
      * @param token - Token que identifica o provedor (classe, string ou symbol)
@@ -66,21 +420,39 @@ export class Container {
      * container.register(MyService, { useClass: MyService, scope: 'singleton' });
      * container.register('API_KEY', { useValue: 'secret-key' });
      * container.register(LoggerService, { useFactory: () => new LoggerService() });
+     *
+     * // Multi-provedores: acumulam em vez de sobrescrever
+     * container.register(HEALTH_INDICATOR, { useClass: DatabaseHealth, multi: true });
+     * container.register(HEALTH_INDICATOR, { useClass: CacheHealth, multi: true });
      * ```
      */
-    register<T>(
-        token: Constructor<T> | string | symbol,
-        provider: Provider<T>
-    ): void {
-        this.providers.set(token, provider);
+    register<T>(token: Token<T>, provider: Provider<T>): void {
+        const tokenName = this.getTokenName(token);
+
+        if (provider.multi) {
+            if (this.providers.has(token)) {
+                throw new Error(
+                    `Token ${tokenName} já possui um provedor simples e não pode receber multi-provedores`
+                );
+            }
+            const providers = this.multiProviders.get(token) ?? [];
+            providers.push(provider);
+            this.multiProviders.set(token, providers);
+        } else {
+            if (this.multiProviders.has(token)) {
+                throw new Error(
+                    `Token ${tokenName} possui multi-provedores; registre com { multi: true }`
+                );
+            }
+            this.providers.set(token, provider);
+        }
+        this.emit("register", { token, provider });
 
         // Se havia uma resolução pendente, tentar resolver novamente
         if (this.pendingResolutions.has(token)) {
             this.pendingResolutions.delete(token);
             console.log(
-                `[INFO] [CONTAINER] Resolvendo dependência anteriormente pendente: ${this.getTokenName(
-                    token
-                )}`
+                `[INFO] [CONTAINER] Resolvendo dependência anteriormente pendente: ${tokenName}`
             );
         }
     }
@@ -88,7 +460,7 @@ export class Container {
     /**
      * Resolve uma dependência do container
      * @param token - Token que identifica a dependência
-     * @param requestId - ID da requisição (usado para escopo request)
+     * @param requestId - ID da requisição (usado para escopo request; padrão: escopo atual de runInScope)
      * @returns Instância da dependência
      * @template T - Tipo da instância esperada
      * @throws {Error} Quando o provedor não é encontrado ou está mal configurado
@@ -99,59 +471,278 @@ export class Container {
      * const apiKey = container.resolve<string>('API_KEY');
      * ```
      */
-    resolve<T>(token: Constructor<T> | string | symbol, requestId?: string): T {
-        // Detectar dependência circular
-        if (this.resolutionStack.has(token)) {
-            const stackArray = Array.from(this.resolutionStack);
-            const tokenName = this.getTokenName(token);
-            throw new Error(
-                `Dependência circular detectada: ${stackArray
-                    .map((t) => this.getTokenName(t))
-                    .join(" -> ")} -> ${tokenName}`
-            );
-        }
+    resolve<T>(token: Token<T>, requestId?: string): T {
+        this.assertNotDisposed(token);
+        requestId ??= requestContext.getStore();
+        this.emit("beforeResolve", { token, requestId });
+        this.checkCircularDependency(token);
 
         try {
             this.resolutionStack.add(token);
-            return this.resolveInternal(token, requestId);
+            const instance = this.resolveInternal(token, requestId);
+            this.pendingResolutions.delete(token);
+            return instance;
         } catch (error) {
+            this.emit("resolveError", { token, error, requestId });
             // Se é um erro de inicialização e a resolução diferida está habilitada
             if (
                 this.enableDeferredResolution &&
                 this.isInitializationError(error)
             ) {
-                return this.handleDeferredResolution(
-                    token,
+                this.handleDeferredResolution(token, error);
+            }
+            throw error;
+        } finally {
+            this.resolutionStack.delete(token);
+        }
+    }
+
+    /**
+     * Resolve uma dependência de forma assíncrona
+     * Factories que retornam Promise são aguardadas; nos escopos singleton e request
+     * o valor resolvido fica em cache e passa a ser injetável de forma síncrona.
+     * Provedores assíncronos dos quais o token depende (em qualquer nível) são
+     * inicializados antes dele
+     * @param token - Token que identifica a dependência
+     * @param requestId - ID da requisição (usado para escopo request)
+     * @returns Promise com a instância da dependência
+     * @template T - Tipo da instância esperada
+     *
+     * @example
+     * ```typescript
+     * container.register(DATABASE, {
+     *   useFactory: async (config: DatabaseConfig) => connect(config.url),
+     *   inject: [DatabaseConfig],
+     * });
+     *
+     * const db = await container.resolveAsync<Database>(DATABASE);
+     * const repository = container.resolve(UserRepository); // DATABASE já inicializado
+     * ```
+     */
+    async resolveAsync<T>(token: Token<T>, requestId?: string): Promise<T> {
+        this.assertNotDisposed(token);
+        requestId ??= requestContext.getStore();
+        const delegate = this.getDelegate(token);
+        if (delegate) return delegate.resolveAsync(token, requestId);
+
+        await this.prepareAsyncProviders(token, requestId, new Set());
+
+        // Factories transient produzem um novo valor a cada resolução
+        const provider = this.providers.get(token);
+        if (
+            provider &&
+            "useFactory" in provider &&
+            provider.scope === "transient"
+        ) {
+            return await this.observeInstantiation(
+                token,
+                "transient",
+                requestId,
+                () => this.invokeFactory(provider, requestId)
+            );
+        }
+
+        return this.resolve(token, requestId);
+    }
+
+    /**
+     * Inicializa, em ordem de dependência, os provedores assíncronos
+     * (singleton e request) alcançáveis a partir de um token
+     * @param token - Token raiz
+     * @param requestId - ID da requisição (usado para escopo request)
+     * @param visited - Tokens já visitados (evita loops em grafos circulares)
+     * @private
+     */
+    private async prepareAsyncProviders(
+        token: Token,
+        requestId: string | undefined,
+        visited: Set<Token>
+    ): Promise<void> {
+        if (visited.has(token)) return;
+        const delegate = this.getDelegate(token);
+        if (delegate) {
+            return delegate.prepareAsyncProviders(token, requestId, visited);
+        }
+        if (!this.isResolvable(token)) return;
+        // O auto-registro pode ter ocorrido no container raiz
+        if (!this.hasOwnProvider(token)) {
+            return this.getDelegate(token)?.prepareAsyncProviders(
+                token,
+                requestId,
+                visited
+            );
+        }
+        visited.add(token);
+
+        const multi = this.multiProviders.get(token);
+        const providers = multi ?? [this.providers.get(token)!];
+
+        for (const provider of providers) {
+            for (const dependency of this.getProviderDependencies(provider)) {
+                await this.prepareAsyncProviders(
+                    dependency.token,
+                    requestId,
+                    visited
+                );
+            }
+
+            const scope: LifeCycleOpt = provider.scope ?? "singleton";
+            if ("useFactory" in provider && scope !== "transient") {
+                await this.resolveScopedAsync(
+                    multi ? provider : token,
+                    scope,
                     requestId,
-                    error as Error
+                    () =>
+                        this.observeInstantiation(token, scope, requestId, () =>
+                            this.invokeFactory(provider, requestId)
+                        )
                 );
             }
+        }
+    }
+
+    /**
+     * Aguarda e armazena em cache o valor de uma factory assíncrona
+     * Execuções concorrentes compartilham a mesma Promise em andamento
+     * @param cacheKey - Chave de cache (token ou multi-provedor)
+     * @param scope - Escopo do ciclo de vida (singleton ou request)
+     * @param requestId - ID da requisição (usado para escopo request)
+     * @param create - Função que cria o valor
+     * @private
+     */
+    private async resolveScopedAsync(
+        cacheKey: CacheKey,
+        scope: LifeCycleOpt,
+        requestId: string | undefined,
+        create: () => unknown
+    ): Promise<void> {
+        const cache =
+            scope === "request"
+                ? this.getRequestMap(requestId ?? generateRequestId())
+                : this.singletons;
+
+        if (cache.has(cacheKey)) {
+            await cache.get(cacheKey);
+            return;
+        }
+
+        const pending = (async () => create())();
+        cache.set(cacheKey, pending);
+
+        try {
+            cache.set(cacheKey, await pending);
+        } catch (error) {
+            cache.delete(cacheKey);
             throw error;
+        }
+    }
+
+    /**
+     * Resolve todas as instâncias registradas para um token
+     * Multi-provedores retornam uma instância por provedor, na ordem de registro;
+     * um provedor simples retorna um array com uma única instância
+     * @param token - Token que identifica as dependências
+     * @param requestId - ID da requisição (usado para escopo request)
+     * @returns Array de instâncias (vazio se não houver provedores)
+     * @template T - Tipo das instâncias esperadas
+     *
+     * @example
+     * ```typescript
+     * const indicators = container.resolveAll<HealthIndicator>(HEALTH_INDICATOR);
+     * const results = indicators.map((indicator) => indicator.check());
+     * ```
+     */
+    resolveAll<T>(token: Token<T>, requestId?: string): T[] {
+        this.assertNotDisposed(token);
+        requestId ??= requestContext.getStore();
+        const delegate = this.getDelegate(token);
+        if (delegate) return delegate.resolveAll(token, requestId);
+        if (!this.isResolvable(token)) {
+            if (this.options.declaredOnly) this.assertDeclared(token);
+            return [];
+        }
+        // O auto-registro pode ter ocorrido no container raiz
+        if (!this.hasOwnProvider(token)) {
+            return this.getDelegate(token)?.resolveAll(token, requestId) ?? [];
+        }
+
+        const providers = this.multiProviders.get(token);
+        if (!providers) return [this.resolve(token, requestId)];
+
+        this.checkCircularDependency(token);
+
+        try {
+            this.resolutionStack.add(token);
+            return providers.map((provider) =>
+                this.resolveProvider(token, provider, requestId, provider)
+            );
         } finally {
             this.resolutionStack.delete(token);
         }
     }
 
+    /**
+     * Lança erro se o container já foi descartado
+     * @private
+     */
+    private assertNotDisposed(token?: Token): void {
+        if (!this.disposed) return;
+        throw new Error(
+            `Container descartado: não é possível ${
+                token === undefined
+                    ? "criar containers filhos"
+                    : `resolver ${this.getTokenName(token)}`
+            }`
+        );
+    }
+
+    /**
+     * Lança erro se o token já estiver na stack de resolução atual
+     * @private
+     */
+    private checkCircularDependency(token: Token): void {
+        if (!this.resolutionStack.has(token)) return;
+
+        const stackArray = Array.from(this.resolutionStack);
+        const tokenName = this.getTokenName(token);
+        throw new Error(
+            `Dependência circular detectada: ${stackArray
+                .map((t) => this.getTokenName(t))
+                .join(" -> ")} -> ${tokenName}\n` +
+                `Dica: use @Autowired({ lazy: true }) em uma das propriedades ou @Inject(forwardRef(() => Classe), { lazy: true }) ` +
+                `em um dos parâmetros para adiar a resolução`
+        );
+    }
+
     /**
      * Método interno de resolução sem tratamento de erros especiais
      * @private
      */
-    private resolveInternal<T>(
-        token: Constructor<T> | string | symbol,
-        requestId?: string
-    ): T {
+    private resolveInternal<T>(token: Token<T>, requestId?: string): T {
         const provider = this.providers.get(token);
 
         if (!provider) {
+            if (this.multiProviders.has(token)) {
+                throw new Error(
+                    `Token ${this.getTokenName(
+                        token
+                    )} possui multi-provedores; use resolveAll() ou @InjectAll()`
+                );
+            }
+
+            // Delegar ao container de origem da importação ou ao pai
+            const delegate = this.getDelegate(token);
+            if (delegate) return delegate.resolve(token, requestId);
+
             // Tentar auto-registro baseado em decorators antes de lançar erro
-            if (typeof token === "function") {
-                const autoRegistered = this.tryAutoRegister(token);
-                if (autoRegistered) {
-                    // Tentar resolver novamente após auto-registro
-                    return this.resolveInternal(token, requestId);
-                }
+            const autoRegistered = this.tryAutoRegister(token);
+            if (autoRegistered) {
+                // Tentar resolver novamente após auto-registro
+                return this.resolveInternal(token, requestId);
             }
 
+            if (this.options.declaredOnly) this.assertDeclared(token);
+
             // Criar erro descritivo quando não conseguir resolver
             const tokenName = this.getTokenName(token);
             const errorDetails = this.generateDependencyErrorDetails(token);
@@ -171,10 +762,57 @@ export class Container {
             );
         }
 
+        return this.resolveProvider(token, provider, requestId);
+    }
+
+    /**
+     * Cria ou obtém do cache a instância de um provedor, respeitando seu escopo
+     * @param token - Token ao qual o provedor está associado
+     * @param provider - Provedor a ser resolvido
+     * @param requestId - ID da requisição (usado para escopo request)
+     * @param cacheKey - Chave usada nos caches de singleton/request (padrão: token)
+     * @private
+     */
+    private resolveProvider<T>(
+        token: Token<T>,
+        provider: Provider<T>,
+        requestId?: string,
+        cacheKey: CacheKey = token
+    ): T {
         if ("useValue" in provider) return provider.useValue!;
 
+        // Alias: delega para o provedor do token existente, que gerencia o próprio escopo
+        if ("useExisting" in provider) {
+            return this.resolve(provider.useExisting!, requestId);
+        }
+
+        const scope: LifeCycleOpt = provider.scope ?? "singleton";
+
         if ("useFactory" in provider) {
-            const instance = provider.useFactory!();
+            const instance = this.resolveScoped(
+                cacheKey,
+                scope,
+                requestId,
+                (id) => {
+                    const result = this.observeInstantiation(
+                        token,
+                        scope,
+                        id,
+                        () => this.invokeFactory(provider, id)
+                    );
+                    if (isPromiseLike(result)) {
+                        // Evita rejeições não tratadas da execução descartada
+                        Promise.resolve(result).catch(() => {});
+                        throw this.createAsyncProviderError(token);
+                    }
+                    return result;
+                }
+            );
+
+            // Instância assíncrona ainda em inicialização via resolveAsync
+            if (isPromiseLike(instance)) {
+                throw this.createAsyncProviderError(token);
+            }
             return instance;
         }
 
@@ -187,22 +825,42 @@ export class Container {
         }
 
         const target = provider.useClass!;
-        const scope: LifeCycleOpt = provider.scope ?? "singleton";
+        return this.resolveScoped(cacheKey, scope, requestId, (id) =>
+            this.observeInstantiation(token, scope, id, () =>
+                this.createInstance(target, id, scope)
+            )
+        );
+    }
 
+    /**
+     * Obtém ou cria uma instância de acordo com o escopo do provedor
+     * @param cacheKey - Chave de cache (token ou multi-provedor)
+     * @param scope - Escopo do ciclo de vida
+     * @param requestId - ID da requisição (usado para escopo request)
+     * @param create - Função que cria a instância
+     * @private
+     */
+    private resolveScoped<T>(
+        cacheKey: CacheKey,
+        scope: LifeCycleOpt,
+        requestId: string | undefined,
+        create: (requestId?: string) => T
+    ): T {
         // Gerenciar diferentes escopos
         switch (scope) {
             case "singleton":
-                return this.resolveSingleton(token, target);
+                return this.resolveSingleton(cacheKey, create);
 
             case "transient":
-                return this.resolveTransient(target, requestId);
+                return this.resolveTransient(create, requestId);
 
             case "request":
-                return this.resolveRequest(
-                    token,
-                    target,
-                    requestId ?? generateRequestId()
-                );
+                if (requestId === undefined) {
+                    // Sem escopo ativo ninguém libera o ID gerado: ele expira pelo TTL
+                    requestId = generateRequestId();
+                    this.generatedScopes.add(requestId);
+                }
+                return this.resolveRequest(cacheKey, create, requestId);
 
             default:
                 throw new Error(`Unsupported scope: ${scope}`);
@@ -210,237 +868,1500 @@ export class Container {
     }
 
     /**
-     * Lida com resolução diferida para casos de inicialização tardia
+     * Executa a função factory de um provedor, resolvendo os tokens declarados em `inject`
+     * @param provider - Provedor com useFactory
+     * @param requestId - ID da requisição (usado para resolver dependências)
+     * @returns Resultado da factory (pode ser uma Promise)
      * @private
      */
-    private handleDeferredResolution<T>(
-        token: Constructor<T> | string | symbol,
-        requestId: string | undefined,
-        error: Error
-    ): T {
-        const tokenName = this.getTokenName(token);
+    private invokeFactory<T>(
+        provider: Provider<T>,
+        requestId?: string
+    ): T | Promise<T> {
+        const scope: LifeCycleOpt = provider.scope ?? "singleton";
+        const { instance: result, dependencies } = this.construct(() => {
+            const deps = (provider.inject ?? []).map((dep) =>
+                this.trackDependency(
+                    this.resolve(resolveForwardRef(dep), requestId)
+                )
+            );
+            return provider.useFactory!(...deps);
+        });
 
-        // Verificar se já tentamos resolver esta dependência muitas vezes
-        const pending = this.pendingResolutions.get(token);
-        if (pending && pending.attempts >= 3) {
-            console.error(
-                `[ERROR] [CONTAINER] Falha após 3 tentativas de resolver ${tokenName}:`,
-                pending.lastError
-            );
-            throw new Error(
-                `Não foi possível resolver ${tokenName} após múltiplas tentativas.\n` +
-                    `Erro original: ${pending.lastError.message}\n\n` +
-                    `Isso geralmente indica:\n` +
-                    `1. Dependência circular não detectada\n` +
-                    `2. Classe não está sendo exportada corretamente\n` +
-                    `3. Problema na ordem de importação dos módulos\n\n` +
-                    `Soluções:\n` +
-                    `- Verifique se todas as classes estão sendo exportadas\n` +
-                    `- Considere usar injeção de dependência baseada em tokens/strings\n` +
-                    `- Reorganize a ordem das declarações de classe no arquivo`
-            );
+        if (isPromiseLike(result)) {
+            return Promise.resolve(result).then((value) => {
+                this.trackInstance(value, dependencies, scope);
+                return value;
+            });
         }
+        this.trackInstance(result, dependencies, scope);
+        return result;
+    }
+
+    /**
+     * Cria o erro lançado quando um provedor assíncrono é resolvido de forma síncrona
+     * @private
+     */
+    private createAsyncProviderError(token: Token): Error {
+        const tokenName = this.getTokenName(token);
+        return new Error(
+            `O provedor ${tokenName} é assíncrono (sua factory retorna uma Promise) e ainda não foi inicializado.\n` +
+                `Use: await container.resolveAsync(${tokenName})`
+        );
+    }
+
+    /**
+     * Lida com resolução diferida para casos de inicialização tardia
+     * A resolução falha de forma síncrona; o token é registrado como pendente para
+     * ser resolvido novamente por resolvePendingDependencies() (chamado ao final do scan)
+     * @throws Error descrevendo o problema e como resolvê-lo com forwardRef/lazy
+     * @private
+     */
+    private handleDeferredResolution(token: Token, error: Error): never {
+        const tokenName = this.getTokenName(token);
+        const pending = this.pendingResolutions.get(token);
+        const attempts = (pending?.attempts ?? 0) + 1;
 
         // Registrar tentativa pendente
-        const dependencies = this.extractDependencies(token);
         this.pendingResolutions.set(token, {
             token,
-            attempts: (pending?.attempts ?? 0) + 1,
+            attempts,
             lastError: error,
-            dependencies,
+            dependencies: this.extractDependencies(token),
         });
 
         console.warn(
-            `⏳ Resolução diferida para ${tokenName} (tentativa ${
-                (pending?.attempts ?? 0) + 1
-            }/3)`
+            `[WARN] [CONTAINER] Resolução de ${tokenName} adiada (tentativa ${attempts}): ${error.message}`
         );
 
-        // Tentar resolver novamente após um pequeno delay
-        return new Promise<T>((resolve, reject) => {
-            setTimeout(() => {
-                try {
-                    const result = this.resolveInternal(token, requestId);
-                    this.pendingResolutions.delete(token);
-                    resolve(result);
-                } catch (retryError) {
-                    if (pending && pending.attempts >= 2) {
-                        reject(retryError);
-                    } else {
-                        // Tentar mais uma vez
-                        setTimeout(() => {
-                            try {
-                                const finalResult = this.resolveInternal(
-                                    token,
-                                    requestId
-                                );
-                                this.pendingResolutions.delete(token);
-                                resolve(finalResult);
-                            } catch (finalError) {
-                                reject(finalError);
-                            }
-                        }, 100);
-                    }
-                }
-            }, 50);
-        }) as any; // Type assertion necessária para compatibilidade
+        throw new Error(
+            `Não foi possível resolver ${tokenName}: uma classe foi acessada antes de ser inicializada.\n` +
+                `Erro original: ${error.message}\n\n` +
+                `Isso geralmente indica:\n` +
+                `1. Importação circular entre módulos\n` +
+                `2. Classe referenciada antes de sua declaração no arquivo\n\n` +
+                `Soluções:\n` +
+                `- Use @Inject(forwardRef(() => Classe)) para adiar a avaliação do token\n` +
+                `- Use @Inject(forwardRef(() => Classe), { lazy: true }) com o tipo Lazy<Classe> para adiar também a construção\n` +
+                `- Chame container.resolvePendingDependencies() após carregar todos os módulos`
+        );
     }
 
     /**
      * Extrai as dependências de uma classe através de reflection
      * @private
      */
-    private extractDependencies(
-        token: Constructor | string | symbol
-    ): Constructor[] {
+    private extractDependencies(token: Token): Token[] {
         if (typeof token !== "function") return [];
 
         try {
-            return Reflect.getMetadata("design:paramtypes", token) ?? [];
+            return this.getConstructorDependencies(token).map((dep) =>
+                this.getDependencyToken(dep)
+            );
         } catch (error) {
             return [];
         }
     }
 
     /**
-     * Verifica se um erro é relacionado à inicialização de classes
+     * Obtém os pontos de injeção dos parâmetros do construtor de uma classe
+     * Tokens definidos com @Inject têm prioridade sobre os tipos refletidos
+     * @param target - Classe a ser inspecionada
+     * @returns Array com a dependência de cada parâmetro (o token pode ser Object/undefined)
      * @private
      */
-    private isInitializationError(error: any): boolean {
-        const message = error?.message || "";
-        return (
-            message.includes("before initialization") ||
-            message.includes("is not defined") ||
-            message.includes("Cannot access") ||
-            message.includes("ReferenceError")
+    private getConstructorDependencies(target: Function): InjectionMetadata[] {
+        const paramTypes: any[] =
+            Reflect.getMetadata("design:paramtypes", target) ?? [];
+        const injections = getInjectionMetadata(target);
+        const length = Math.max(paramTypes.length, injections.length);
+
+        return Array.from({ length }, (_, index) => ({
+            ...injections[index],
+            token: injections[index]?.token ?? paramTypes[index],
+        }));
+    }
+
+    /**
+     * Obtém os pontos de injeção de um provedor, com referências forwardRef já avaliadas
+     * Inclui parâmetros do construtor e propriedades (useClass),
+     * tokens de `inject` (useFactory) e o token de destino (useExisting)
+     * @param provider - Provedor a ser inspecionado
+     * @private
+     */
+    private getProviderDependencies(provider: Provider): (InjectionMetadata & {
+        token: Token;
+        propertyKey?: string | symbol;
+    })[] {
+        if ("useValue" in provider) return [];
+        if ("useExisting" in provider) {
+            return [{ token: provider.useExisting! }];
+        }
+
+        const dependencies: (InjectionMetadata & {
+            propertyKey?: string | symbol;
+        })[] =
+            "useFactory" in provider
+                ? (provider.inject ?? []).map((token) => ({ token }))
+                : provider.useClass
+                  ? [
+                        ...this.getConstructorDependencies(provider.useClass),
+                        ...getPropertyInjectionMetadata(provider.useClass),
+                    ]
+                  : [];
+
+        return dependencies.map((dependency) => ({
+            ...dependency,
+            token: this.getDependencyToken(dependency),
+        }));
+    }
+
+    /**
+     * Obtém o token resolvido por um ponto de injeção: referências forwardRef
+     * são avaliadas e qualificadores (@Named) selecionam o token qualificado
+     * @private
+     */
+    private getDependencyToken(dependency: InjectionMetadata): Token {
+        return qualify(
+            resolveForwardRef(dependency.token),
+            dependency.qualifier
         );
     }
 
+    /**
+     * Verifica se um token pode ser resolvido, seja por um provedor
+     * registrado ou por auto-registro baseado em decorators
+     * @private
+     */
+    private isResolvable(token: Token): boolean {
+        if (this.isUnresolvableParamType(token)) return false;
+        if (this.has(token)) return true;
+        return this.tryAutoRegister(token);
+    }
+
+    /**
+     * Resolve um ponto de injeção, aplicando o valor padrão de dependências
+     * opcionais quando o token não está disponível
+     * Dependências lazy recebem um proxy resolvido no primeiro acesso
+     * @param dependency - Metadados do ponto de injeção
+     * @param requestId - ID da requisição da instância proprietária
+     * @private
+     */
+    private resolveDependency(
+        dependency: InjectionMetadata,
+        requestId?: string
+    ): any {
+        if (dependency.lazy) {
+            return createLazyProxy(() =>
+                this.resolveDependency(
+                    { ...dependency, lazy: false },
+                    requestId
+                )
+            );
+        }
+
+        const token = this.getDependencyToken(dependency);
+        if (dependency.multi) {
+            const instances = this.resolveAll(token, requestId);
+            instances.forEach((instance) => this.trackDependency(instance));
+            return instances;
+        }
+        if (dependency.optional && !this.isResolvable(token)) {
+            return dependency.defaultValue;
+        }
+        return this.trackDependency(this.resolve(token, requestId));
+    }
+
+    /**
+     * Registra um valor como dependência da instância em construção
+     * @returns O próprio valor
+     * @private
+     */
+    private trackDependency<T>(value: T): T {
+        const dependencies = this.constructionStack.at(-1);
+        if (dependencies && typeof value === "object" && value !== null) {
+            dependencies.add(value);
+        }
+        return value;
+    }
+
+    /**
+     * Executa a construção de uma instância registrando as dependências resolvidas
+     * durante a execução, usadas para descartá-la antes de suas dependências
+     * @param create - Função que resolve as dependências e cria a instância
+     * @returns Instância criada e suas dependências diretas
+     * @private
+     */
+    private construct<T>(create: () => T): {
+        instance: T;
+        dependencies: Set<object>;
+    } {
+        const dependencies = new Set<object>();
+        this.constructionStack.push(dependencies);
+        try {
+            return { instance: create(), dependencies };
+        } finally {
+            this.constructionStack.pop();
+        }
+    }
+
+    /**
+     * Registra uma instância criada por este container para o descarte
+     * Transients não são mantidos pelo container: quem os recebe é responsável
+     * por destruí-los (manter cada um até o dispose() cresceria sem limite)
+     * @private
+     */
+    private trackInstance(
+        instance: unknown,
+        dependencies: Set<object>,
+        scope: LifeCycleOpt
+    ): void {
+        if (typeof instance !== "object" || instance === null) return;
+
+        this.instanceDependencies.set(instance, dependencies);
+        if (scope !== "transient" && hasDestroyHooks(instance)) {
+            this.disposables.add(instance);
+        }
+    }
+
+    /**
+     * Verifica se o token de um parâmetro não pode ser resolvido por ser
+     * uma interface/tipo (refletido como Object) ou uma referência indefinida
+     * @private
+     */
+    private isUnresolvableParamType(
+        token: InjectableToken | undefined
+    ): boolean {
+        return token === undefined || token === Object;
+    }
+
+    /**
+     * Verifica se um erro é relacionado à inicialização de classes
+     * Acessos a classes ainda não inicializadas (TDZ) ou indefinidas lançam ReferenceError
+     * @private
+     */
+    private isInitializationError(error: unknown): error is ReferenceError {
+        return error instanceof ReferenceError;
+    }
+
     /**
      * Obtém o nome de um token para logs e mensagens de erro
      * @private
      */
-    private getTokenName(token: Constructor | string | symbol): string {
+    private getTokenName(token: Token): string {
         if (typeof token === "function") return token.name;
+        if (token instanceof InjectionToken) return token.toString();
         return String(token);
     }
 
-    /**
-     * Resolve uma instância singleton (cached)
-     * @param token - Token que identifica a dependência
-     * @param target - Classe a ser instanciada
-     * @returns Instância singleton
-     * @template T - Tipo da instância
-     * @private
-     */
-    private resolveSingleton<T>(
-        token: Constructor<T> | string | symbol,
-        target: Constructor<T>
-    ): T {
-        if (this.singletons.has(token)) {
-            return this.singletons.get(token);
+    /**
+     * Resolve uma instância singleton (cached)
+     * @param cacheKey - Chave de cache (token ou multi-provedor)
+     * @param create - Função que cria a instância
+     * @returns Instância singleton
+     * @template T - Tipo da instância
+     * @private
+     */
+    private resolveSingleton<T>(cacheKey: CacheKey, create: () => T): T {
+        if (this.singletons.has(cacheKey)) {
+            return this.singletons.get(cacheKey);
+        }
+
+        const instance = create();
+        this.singletons.set(cacheKey, instance);
+        return instance;
+    }
+
+    /**
+     * Resolve uma instância transient (sempre nova)
+     * @param create - Função que cria a instância
+     * @param requestId - ID da requisição (para injeção de dependências)
+     * @returns Nova instância
+     * @template T - Tipo da instância
+     * @private
+     */
+    private resolveTransient<T>(
+        create: (requestId?: string) => T,
+        requestId?: string
+    ): T {
+        return create(requestId);
+    }
+
+    /**
+     * Resolve uma instância request-scoped (uma por requisição)
+     * @param cacheKey - Chave de cache (token ou multi-provedor)
+     * @param create - Função que cria a instância
+     * @param requestId - ID da requisição
+     * @returns Instância request-scoped
+     * @template T - Tipo da instância
+     * @private
+     */
+    private resolveRequest<T>(
+        cacheKey: CacheKey,
+        create: (requestId: string) => T,
+        requestId: string
+    ): T {
+        const requestMap = this.getRequestMap(requestId);
+
+        // Verificar se já existe uma instância para este token nesta requisição
+        if (requestMap.has(cacheKey)) {
+            return requestMap.get(cacheKey);
+        }
+
+        // Criar nova instância e armazenar no escopo da requisição
+        const instance = create(requestId);
+        requestMap.set(cacheKey, instance);
+        return instance;
+    }
+
+    /**
+     * Obtém ou cria o mapa de instâncias de uma requisição
+     * @param requestId - ID da requisição
+     * @private
+     */
+    private getRequestMap(requestId: string): Map<CacheKey, any> {
+        let requestMap = this.requestInstances.get(requestId);
+        if (!requestMap) {
+            this.sweepRequestScopes();
+            requestMap = new Map();
+            this.requestInstances.set(requestId, requestMap);
+            this.requestScopeCreatedAt.set(requestId, Date.now());
+
+            const containers = scopeContainers.get(requestId) ?? new Set();
+            scopeContainers.set(requestId, containers.add(this));
+        }
+        return requestMap;
+    }
+
+    /**
+     * Cria uma nova instância da classe, resolvendo suas dependências
+     * O ciclo de vida (onInit, onRequestStart e registro para cleanup) é aplicado
+     * uma única vez, aqui, qualquer que seja o escopo ou o caminho da resolução
+     * @param target - Classe a ser instanciada
+     * @param requestId - ID da requisição (usado para resolver dependências)
+     * @param scope - Escopo do ciclo de vida da instância
+     * @returns Nova instância com dependências injetadas
+     * @template T - Tipo da instância
+     * @private
+     */
+    private createInstance<T>(
+        target: Constructor<T>,
+        requestId?: string,
+        scope: LifeCycleOpt = "singleton"
+    ): T {
+        const { instance, dependencies } = this.construct(() =>
+            this.instantiate(target, requestId)
+        );
+        this.trackInstance(instance, dependencies, scope);
+
+        applyLifecycle(instance, scope, requestId, { initialize: false });
+        this.initializeInstance(target, instance, dependencies);
+        return instance;
+    }
+
+    /**
+     * Executa o onInit de uma instância depois que as inicializações assíncronas
+     * de suas dependências terminaram. Sem dependências pendentes, onInit é
+     * executado imediatamente (erros síncronos são propagados para resolve())
+     * Falhas e timeouts são acumulados e reportados por whenInitialized()
+     * @private
+     */
+    private initializeInstance(
+        target: Constructor,
+        instance: any,
+        dependencies: Set<object>
+    ): void {
+        const waits = Array.from(dependencies, (dependency) =>
+            this.getInitialization(dependency)
+        ).filter((wait): wait is Promise<void> => wait !== undefined);
+        const hasHook = typeof instance?.onInit === "function";
+        if (!hasHook && !waits.length) return;
+
+        const config =
+            getServiceLifecycle(target) ?? getProcessorLifecycle(target);
+        const required = config?.initRequired ?? true;
+        const timeout = config?.initTimeout ?? this.getInitTimeout();
+
+        const fail = (error: unknown) => {
+            this.recordInitFailure(target, error, required);
+            if (required) throw error;
+        };
+        const run = (): Promise<void> | void => {
+            if (!hasHook) return;
+            try {
+                const result = instance.onInit();
+                if (!isPromiseLike(result)) return;
+                return withTimeout(
+                    Promise.resolve(result),
+                    timeout,
+                    `onInit de ${target.name} não terminou em ${timeout}ms`
+                ).then(() => {}, fail);
+            } catch (error) {
+                fail(error);
+            }
+        };
+
+        const initialization = waits.length
+            ? Promise.all(waits).then(run, (error) => {
+                  throw new Error(
+                      `${target.name} não foi inicializado: uma dependência falhou no onInit`,
+                      { cause: error }
+                  );
+              })
+            : run();
+        if (!initialization) return;
+
+        initializations.set(instance, initialization);
+        this.pendingInitializations.add(initialization);
+        initialization.then(
+            () => this.pendingInitializations.delete(initialization),
+            () => {}
+        );
+    }
+
+    /**
+     * Obtém a inicialização pendente de uma instância
+     * Compartilhada entre containers: dependências podem vir de ancestrais ou de
+     * containers importados
+     * @private
+     */
+    private getInitialization(instance: object): Promise<void> | undefined {
+        return initializations.get(instance);
+    }
+
+    /**
+     * Registra a falha do onInit de um componente
+     * Falhas de componentes com initRequired: false apenas geram aviso
+     * @private
+     */
+    private recordInitFailure(
+        target: Constructor,
+        error: unknown,
+        required: boolean
+    ): void {
+        if (!required) {
+            console.warn(
+                `[WARN] [CONTAINER] onInit de ${target.name} falhou (opcional):`,
+                error
+            );
+            return;
+        }
+
+        console.error(
+            `[ERROR] [CONTAINER] onInit de ${target.name} falhou:`,
+            error
+        );
+        this.initializationFailures.push({ name: target.name, error });
+    }
+
+    /**
+     * Aguarda, em ordem de dependência, a conclusão dos hooks onInit assíncronos
+     * das instâncias criadas pelo container, incluindo os iniciados durante a espera
+     * @throws AggregateError listando todos os componentes obrigatórios cujo onInit
+     * falhou ou excedeu o tempo limite
+     *
+     * @example
+     * ```typescript
+     * container.resolve(DatabaseService); // onInit assíncrono iniciado
+     * await container.whenInitialized();  // conexão estabelecida
+     * ```
+     */
+    async whenInitialized(): Promise<void> {
+        while (this.pendingInitializations.size) {
+            const pending = Array.from(this.pendingInitializations);
+            this.pendingInitializations.clear();
+            await Promise.allSettled(pending);
+        }
+
+        const failures = this.initializationFailures.splice(0);
+        if (!failures.length) return;
+
+        throw new AggregateError(
+            failures.map(({ error }) => error),
+            `Falha na inicialização de ${failures.length} componente(s):\n` +
+                failures
+                    .map(
+                        ({ name, error }) =>
+                            `- ${name}: ${
+                                error instanceof Error
+                                    ? error.message
+                                    : String(error)
+                            }`
+                    )
+                    .join("\n")
+        );
+    }
+
+    /**
+     * Define o tempo máximo, em ms, para cada onInit assíncrono
+     * Componentes podem sobrescrevê-lo com `lifecycle: { initTimeout }`
+     * @param ms - Tempo limite (0 desabilita)
+     */
+    setInitTimeout(ms: number): void {
+        this.initTimeout = ms;
+    }
+
+    /**
+     * Obtém o tempo máximo para cada onInit assíncrono
+     * @returns Tempo definido neste container, no pai ou o padrão (30000 ms)
+     */
+    getInitTimeout(): number {
+        return (
+            this.initTimeout ??
+            this.parent?.getInitTimeout() ??
+            DEFAULT_INIT_TIMEOUT
+        );
+    }
+
+    /**
+     * Resolve as dependências do construtor, cria a instância, injeta as propriedades
+     * e aplica os interceptadores (@Before, @After, @Around)
+     * @private
+     */
+    private instantiate<T>(target: Constructor<T>, requestId?: string): T {
+        const deps = this.getConstructorDependencies(target);
+        const resolvedDeps = deps.map((dep, index) => {
+            if (!dep.optional && this.isUnresolvableParamType(dep.token)) {
+                throw new Error(
+                    `Não foi possível determinar o token do parâmetro #${index} do construtor de ${target.name} ` +
+                        `(tipo refletido: ${dep.token === Object ? "Object" : "undefined"}).\n\n` +
+                        `Isso geralmente indica:\n` +
+                        `1. O parâmetro é tipado com uma interface ou tipo, que não existe em runtime\n` +
+                        `2. A classe do parâmetro ainda não havia sido definida (importação circular)\n\n` +
+                        `Solução: informe o token explicitamente com @Inject(token):\n` +
+                        `   constructor(@Inject('meuToken') dep: MinhaInterface) {}`
+                );
+            }
+            return this.resolveDependency(dep, requestId);
+        });
+        const instance = new target(...resolvedDeps);
+        this.injectProperties(instance, target, requestId);
+        if (hasInterceptors(target)) {
+            // Interceptadores são dependências da instância (descartados depois dela)
+            applyInterceptors(
+                instance,
+                target,
+                (interceptor) =>
+                    this.trackDependency(this.resolve(interceptor, requestId)),
+                () => requestContext.getStore() ?? requestId
+            );
+        }
+        return instance;
+    }
+
+    /**
+     * Injeta as dependências declaradas com @Autowired/@Value em uma instância recém-criada
+     * Dependências lazy são resolvidas apenas no primeiro acesso à propriedade,
+     * usando o mesmo requestId da instância proprietária
+     * @param instance - Instância que receberá as dependências
+     * @param target - Classe da instância
+     * @param requestId - ID da requisição da instância proprietária
+     * @private
+     */
+    private injectProperties<T>(
+        instance: T,
+        target: Constructor<T>,
+        requestId?: string
+    ): void {
+        for (const property of getPropertyInjectionMetadata(target)) {
+            const { propertyKey, token, lazy, optional } = property;
+
+            if (!optional && this.isUnresolvableParamType(token)) {
+                throw new Error(
+                    `Não foi possível determinar o token da propriedade ${target.name}.${String(
+                        propertyKey
+                    )} (tipo refletido: ${token === Object ? "Object" : "undefined"}).\n\n` +
+                        `Solução: informe o token explicitamente:\n` +
+                        `   @Autowired('meuToken') dep!: MinhaInterface;`
+                );
+            }
+
+            // Dependência opcional indisponível sem valor padrão: preserva o valor inicial
+            if (
+                optional &&
+                property.defaultValue === undefined &&
+                !this.isResolvable(this.getDependencyToken(property))
+            ) {
+                continue;
+            }
+
+            if (!lazy) {
+                (instance as any)[propertyKey] = this.resolveDependency(
+                    property,
+                    requestId
+                );
+                continue;
+            }
+
+            Object.defineProperty(instance, propertyKey, {
+                configurable: true,
+                enumerable: true,
+                get: () => {
+                    const value = this.resolveDependency(
+                        { ...property, lazy: false },
+                        requestId
+                    );
+                    // Substitui o getter pelo valor resolvido
+                    Object.defineProperty(instance, propertyKey, {
+                        value,
+                        configurable: true,
+                        enumerable: true,
+                        writable: true,
+                    });
+                    return value;
+                },
+                set: (value) => {
+                    Object.defineProperty(instance, propertyKey, {
+                        value,
+                        configurable: true,
+                        enumerable: true,
+                        writable: true,
+                    });
+                },
+            });
+        }
+    }
+
+    /**
+     * Limpa as instâncias de uma requisição específica
+     * Deve ser chamado no final de cada requisição HTTP para liberar memória
+     * @param requestId - ID da requisição a ser limpa
+     *
+     * @example
+     * ```typescript
+     * // No final da requisição HTTP
+     * container.clearRequestInstances(requestId);
+     * ```
+     */
+    clearRequestInstances(requestId: string): void {
+        for (const instance of this.requestInstances.get(requestId)?.values() ??
+            []) {
+            this.disposables.delete(instance);
+        }
+        this.requestInstances.delete(requestId);
+        this.forgetRequestScope(requestId);
+    }
+
+    /**
+     * Executa uma função dentro de um escopo de requisição
+     * Toda resolução feita durante a execução (inclusive após await) usa o ID
+     * informado, sem precisar repassá-lo a resolve(). Ao final, as instâncias
+     * do escopo recebem onRequestEnd/onDestroy e são liberadas
+     *
+     * Útil para jobs, filas e comandos CLI que precisam de instâncias request-scoped
+     *
+     * @param requestId - ID do escopo
+     * @param fn - Função a ser executada (síncrona ou assíncrona)
+     * @returns Resultado da função
+     *
+     * @example
+     * ```typescript
+     * await container.runInScope(`job_${job.id}`, async () => {
+     *   const context = container.resolve(JobContext); // request-scoped
+     *   await container.resolve(JobRunner).run(job);    // mesma instância de JobContext
+     * });
+     * ```
+     */
+    runInScope<R>(requestId: string, fn: () => R): R {
+        activeScopes.set(requestId, (activeScopes.get(requestId) ?? 0) + 1);
+        const release = () => {
+            const count = activeScopes.get(requestId)! - 1;
+            if (count > 0) activeScopes.set(requestId, count);
+            else activeScopes.delete(requestId);
+            return this.releaseScope(requestId);
+        };
+
+        let result: R;
+        try {
+            result = requestContext.run(requestId, fn);
+        } catch (error) {
+            void release();
+            throw error;
+        }
+
+        if (isPromiseLike(result)) {
+            return Promise.resolve(result).finally(release) as R;
+        }
+        void release();
+        return result;
+    }
+
+    /**
+     * Obtém o ID do escopo de requisição atual
+     * @returns ID definido por runInScope() ou undefined fora de um escopo
+     *
+     * @example
+     * ```typescript
+     * container.runInScope('req-1', () => {
+     *   console.log(container.getCurrentRequestId()); // 'req-1'
+     * });
+     * ```
+     */
+    getCurrentRequestId(): string | undefined {
+        return requestContext.getStore();
+    }
+
+    /**
+     * Executa o cleanup das instâncias de um escopo encerrado
+     * @private
+     */
+    private async releaseScope(requestId: string): Promise<void> {
+        const containers = new Set([
+            this,
+            ...(scopeContainers.get(requestId) ?? []),
+        ]);
+        try {
+            await cleanupRequest(requestId);
+            for (const container of containers) {
+                await container.destroyInstances(
+                    container.requestInstances.get(requestId)?.values() ?? []
+                );
+            }
+        } catch (error) {
+            console.error(
+                `[ERROR] [CONTAINER] Erro no cleanup do escopo ${requestId}:`,
+                error
+            );
+        } finally {
+            for (const container of containers) {
+                container.clearRequestInstances(requestId);
+            }
+        }
+    }
+
+    /**
+     * Define a política de expiração e aviso dos escopos de requisição
+     * Escopos criados por resolve(token, requestId) ou por resoluções request-scoped
+     * fora de runInScope() só são liberados por clearRequestInstances(); a política
+     * descarta os esquecidos depois do TTL
+     * @param policy - Campos a alterar (os demais são mantidos)
+     *
+     * @example
+     * ```typescript
+     * GlobalContainer.setRequestScopePolicy({ ttl: 60_000, warnAfter: 10_000 });
+     * ```
+     */
+    setRequestScopePolicy(policy: RequestScopePolicy): void {
+        this.requestScopePolicy = { ...this.requestScopePolicy, ...policy };
+    }
+
+    /**
+     * Obtém a política de escopos de requisição em vigor
+     * Campos não definidos neste container são herdados do pai ou do padrão
+     * (ttl: 300000, warnAfter: 60000)
+     * @returns Política completa
+     */
+    getRequestScopePolicy(): Required<RequestScopePolicy> {
+        const inherited =
+            this.parent?.getRequestScopePolicy() ??
+            DEFAULT_REQUEST_SCOPE_POLICY;
+        return {
+            ttl: this.requestScopePolicy?.ttl ?? inherited.ttl,
+            warnAfter:
+                this.requestScopePolicy?.warnAfter ?? inherited.warnAfter,
+        };
+    }
+
+    /**
+     * Descarta imediatamente os escopos de requisição expirados
+     * A verificação também ocorre automaticamente (no máximo uma vez por segundo)
+     * sempre que um novo escopo é criado
+     * @returns IDs dos escopos descartados
+     *
+     * @example
+     * ```typescript
+     * setInterval(() => GlobalContainer.evictExpiredRequestScopes(), 60_000).unref();
+     * ```
+     */
+    evictExpiredRequestScopes(): string[] {
+        return this.sweepRequestScopes(true);
+    }
+
+    /**
+     * Lista os escopos de requisição de longa duração, com seus tokens e idade
+     * @param minAge - Idade mínima em ms (padrão: warnAfter da política)
+     * @returns Relatório com os escopos, a política e o total de descartes
+     *
+     * @example
+     * ```typescript
+     * const { scopes } = GlobalContainer.getLeakReport();
+     * for (const scope of scopes) {
+     *   console.warn(scope.requestId, `${scope.age}ms`, scope.tokens);
+     * }
+     * ```
+     */
+    getLeakReport(minAge?: number): LeakReport {
+        const policy = this.getRequestScopePolicy();
+        const threshold = minAge ?? policy.warnAfter;
+        const now = Date.now();
+
+        const scopes: RequestScopeReport[] = [];
+        for (const [requestId, createdAt] of this.requestScopeCreatedAt) {
+            const age = now - createdAt;
+            if (age < threshold) continue;
+            scopes.push({
+                requestId,
+                age,
+                tokens: this.getRequestScopeTokens(requestId),
+                active: activeScopes.has(requestId),
+                generated: this.generatedScopes.has(requestId),
+            });
+        }
+
+        return {
+            policy,
+            scopes: scopes.sort((a, b) => b.age - a.age),
+            evicted: this.evictedScopes,
+        };
+    }
+
+    /**
+     * Emite avisos para escopos antigos e descarta os expirados que não estão
+     * em execução por runInScope()
+     * @param force - Ignora o intervalo mínimo entre verificações
+     * @returns IDs dos escopos descartados
+     * @private
+     */
+    private sweepRequestScopes(force = false): string[] {
+        const now = Date.now();
+        if (
+            !force &&
+            now - this.lastScopeSweep < REQUEST_SCOPE_SWEEP_INTERVAL
+        ) {
+            return [];
+        }
+        this.lastScopeSweep = now;
+
+        const { ttl, warnAfter } = this.getRequestScopePolicy();
+        const evicted: string[] = [];
+
+        for (const [requestId, createdAt] of this.requestScopeCreatedAt) {
+            const age = now - createdAt;
+            const tokens = this.getRequestScopeTokens(requestId).join(", ");
+
+            if (ttl > 0 && age >= ttl && !activeScopes.has(requestId)) {
+                console.warn(
+                    `[WARN] [CONTAINER] Escopo de requisição ${requestId} expirou após ${age}ms sem ser liberado; descartando instâncias: ${tokens}`
+                );
+                // Removido antes do cleanup assíncrono para não ser descartado duas vezes
+                this.requestScopeCreatedAt.delete(requestId);
+                this.evictedScopes++;
+                void this.releaseScope(requestId);
+                evicted.push(requestId);
+                continue;
+            }
+
+            if (
+                warnAfter > 0 &&
+                age >= warnAfter &&
+                !this.warnedScopes.has(requestId)
+            ) {
+                this.warnedScopes.add(requestId);
+                console.warn(
+                    `[WARN] [CONTAINER] Escopo de requisição ${requestId} ativo há ${age}ms (${tokens}).` +
+                        (activeScopes.has(requestId)
+                            ? " Ainda em execução por runInScope(); não será descartado."
+                            : this.generatedScopes.has(requestId)
+                              ? " O ID foi gerado por uma resolução request-scoped fora de runInScope()."
+                              : " Use runInScope() ou chame clearRequestInstances() ao final da requisição.")
+                );
+            }
+        }
+        return evicted;
+    }
+
+    /**
+     * Descarta o rastreamento de idade de um escopo liberado
+     * @private
+     */
+    private forgetRequestScope(requestId: string): void {
+        this.requestScopeCreatedAt.delete(requestId);
+        this.generatedScopes.delete(requestId);
+        this.warnedScopes.delete(requestId);
+
+        const containers = scopeContainers.get(requestId);
+        containers?.delete(this);
+        if (!containers?.size) scopeContainers.delete(requestId);
+    }
+
+    /**
+     * Obtém os nomes dos tokens com instâncias em cache em um escopo de requisição
+     * Multi-provedores são descritos pela classe (ou como factory)
+     * @private
+     */
+    private getRequestScopeTokens(requestId: string): string[] {
+        return Array.from(
+            this.requestInstances.get(requestId)?.keys() ?? [],
+            (key) => {
+                if (
+                    typeof key === "object" &&
+                    key !== null &&
+                    !(key instanceof InjectionToken)
+                ) {
+                    const provider = key as Provider;
+                    return `${provider.useClass?.name ?? "factory"} [multi]`;
+                }
+                return this.getTokenName(key as Token);
+            }
+        );
+    }
+
+    /**
+     * Obtém estatísticas do container
+     * @returns Objeto com estatísticas de uso do container
+     *
+     * @example
+     * ```typescript
+     * const stats = container.getStats();
+     * console.log(`Providers: ${stats.providers}, Singletons: ${stats.singletons}`);
+     * ```
+     */
+    getStats() {
+        return {
+            /** Número de provedores registrados */
+            providers: this.providers.size,
+            /** Número de tokens com multi-provedores registrados */
+            multiProviders: this.multiProviders.size,
+            /** Número de instâncias singleton em cache */
+            singletons: this.singletons.size,
+            /** Número de requisições ativas com instâncias em cache */
+            activeRequests: this.requestInstances.size,
+            /** Número de escopos de requisição descartados por expiração */
+            evictedRequests: this.evictedScopes,
+            /** Número de resoluções pendentes */
+            pendingResolutions: this.pendingResolutions.size,
+            /** Número de containers filhos ativos */
+            children: this.children.size,
+            /** Uso de @Cacheable/@CacheEvict (undefined antes do primeiro método cacheado) */
+            cache: this.getCacheStats(),
+        };
+    }
+
+    /**
+     * Observa o registro de provedores neste container
+     * @param listener - Função chamada a cada register()
+     * @returns Função que remove o observador
+     *
+     * @example
+     * ```typescript
+     * const off = container.onRegister(({ token }) => console.log('registrado', token));
+     * off();
+     * ```
+     */
+    onRegister(
+        listener: ContainerEventListener<ContainerEventMap["register"]>
+    ): () => void {
+        return this.addObserver("register", listener);
+    }
+
+    /**
+     * Observa o início de cada resolução (inclusive das dependências)
+     * Observadores de um container também recebem os eventos de seus filhos
+     * @param listener - Função chamada antes de cada resolve()
+     * @returns Função que remove o observador
+     */
+    onBeforeResolve(
+        listener: ContainerEventListener<ContainerEventMap["beforeResolve"]>
+    ): () => void {
+        return this.addObserver("beforeResolve", listener);
+    }
+
+    /**
+     * Observa a criação de instâncias (useClass e useFactory) com o tempo de construção
+     * Em factories assíncronas, o evento é emitido quando a Promise é resolvida
+     * @param listener - Função chamada a cada instância criada
+     * @returns Função que remove o observador
+     *
+     * @example
+     * ```typescript
+     * container.onInstantiate(({ token, scope, duration }) => {
+     *   if (duration > 100) console.warn(`Construção lenta (${scope}):`, token, duration);
+     * });
+     * ```
+     */
+    onInstantiate(
+        listener: ContainerEventListener<ContainerEventMap["instantiate"]>
+    ): () => void {
+        return this.addObserver("instantiate", listener);
+    }
+
+    /**
+     * Observa falhas de resolução
+     * Uma dependência que falha gera um evento para ela e para cada token que a requisitou
+     * @param listener - Função chamada a cada erro de resolução
+     * @returns Função que remove o observador
+     */
+    onResolveError(
+        listener: ContainerEventListener<ContainerEventMap["resolveError"]>
+    ): () => void {
+        return this.addObserver("resolveError", listener);
+    }
+
+    /**
+     * Habilita ou desabilita a coleta de métricas de construção neste container
+     * @param enabled - Se true, coleta métricas (padrão: true)
+     */
+    enableMetrics(enabled = true): void {
+        this.metricsEnabled = enabled;
+    }
+
+    /**
+     * Obtém as métricas de construção das instâncias criadas por este container,
+     * por token e escopo, ordenadas pelo tempo gasto nos próprios construtores
+     * @returns Métricas (vazio se a coleta não foi habilitada)
+     *
+     * @example
+     * ```typescript
+     * const container = new Container(undefined, { metrics: true });
+     * // ...
+     * console.table(container.getMetrics().slice(0, 10));
+     * ```
+     */
+    getMetrics(): ConstructionMetrics[] {
+        const metrics: ConstructionMetrics[] = [];
+        for (const [token, byScope] of this.metrics) {
+            for (const [scope, counters] of byScope) {
+                metrics.push({
+                    token: this.getTokenName(token),
+                    scope,
+                    ...counters,
+                    averageTime: counters.ownTime / counters.instantiations,
+                });
+            }
+        }
+        return metrics.sort((a, b) => b.ownTime - a.ownTime);
+    }
+
+    /**
+     * Descarta as métricas de construção coletadas
+     */
+    resetMetrics(): void {
+        this.metrics.clear();
+    }
+
+    /**
+     * Adiciona um observador de evento
+     * @private
+     */
+    private addObserver<K extends keyof ContainerEventMap>(
+        event: K,
+        listener: ContainerEventListener<ContainerEventMap[K]>
+    ): () => void {
+        this.observers[event].add(listener);
+        return () => {
+            this.observers[event].delete(listener);
+        };
+    }
+
+    /**
+     * Verifica se há observadores de um evento neste container ou em seus ancestrais
+     * @private
+     */
+    private hasObservers(event: keyof ContainerEventMap): boolean {
+        return (
+            this.observers[event].size > 0 || !!this.parent?.hasObservers(event)
+        );
+    }
+
+    /**
+     * Notifica os observadores deste container e de seus ancestrais
+     * Erros dos observadores são registrados sem interromper a resolução
+     * @private
+     */
+    private emit<K extends keyof ContainerEventMap>(
+        event: K,
+        payload: ContainerEventMap[K]
+    ): void {
+        for (
+            let container: Container | undefined = this;
+            container;
+            container = container.parent
+        ) {
+            for (const listener of container.observers[event]) {
+                try {
+                    listener(payload);
+                } catch (error) {
+                    console.error(
+                        `[ERROR] [CONTAINER] Erro no observador de ${event}:`,
+                        error
+                    );
+                }
+            }
+        }
+    }
+
+    /**
+     * Cria uma instância medindo o tempo de construção para as métricas e o evento
+     * instantiate. O tempo das instâncias criadas durante a construção (dependências)
+     * é descontado do tempo próprio; factories assíncronas são medidas até a resolução
+     * @private
+     */
+    private observeInstantiation<T>(
+        token: Token,
+        scope: LifeCycleOpt,
+        requestId: string | undefined,
+        create: () => T
+    ): T {
+        if (!this.metricsEnabled && !this.hasObservers("instantiate")) {
+            return create();
+        }
+
+        this.timingStack.push(0);
+        const start = performance.now();
+        let instance: T;
+        let nested = 0;
+        try {
+            instance = create();
+        } finally {
+            nested = this.timingStack.pop()!;
+            const elapsed = performance.now() - start;
+            if (this.timingStack.length) {
+                this.timingStack[this.timingStack.length - 1]! += elapsed;
+            }
+        }
+
+        const complete = (value: unknown) => {
+            const duration = performance.now() - start;
+            if (this.metricsEnabled) {
+                this.recordMetrics(token, scope, duration, duration - nested);
+            }
+            this.emit("instantiate", {
+                token,
+                scope,
+                instance: value,
+                duration,
+                requestId,
+            });
+        };
+
+        if (isPromiseLike(instance)) {
+            // Rejeições são tratadas por quem aguarda a factory
+            instance.then(complete, () => {});
+        } else {
+            complete(instance);
+        }
+        return instance;
+    }
+
+    /**
+     * Acumula as métricas de uma construção
+     * @private
+     */
+    private recordMetrics(
+        token: Token,
+        scope: LifeCycleOpt,
+        duration: number,
+        ownTime: number
+    ): void {
+        let byScope = this.metrics.get(token);
+        if (!byScope) {
+            byScope = new Map();
+            this.metrics.set(token, byScope);
+        }
+
+        const counters = byScope.get(scope) ?? {
+            instantiations: 0,
+            totalTime: 0,
+            ownTime: 0,
+            maxTime: 0,
+        };
+        counters.instantiations++;
+        counters.totalTime += duration;
+        counters.ownTime += ownTime;
+        counters.maxTime = Math.max(counters.maxTime, ownTime);
+        byScope.set(scope, counters);
+    }
+
+    /**
+     * Obtém as estatísticas somadas dos CacheInterceptors deste container e de
+     * seus descendentes (ex.: containers de módulos); sem nenhum, usa as do ancestral
+     * @private
+     */
+    private getCacheStats(): CacheStats | undefined {
+        const interceptors = this.collectCacheInterceptors(new Set());
+        if (!interceptors.size) return this.parent?.getCacheStats();
+
+        return summarizeCacheCounters(
+            Array.from(interceptors).flatMap((interceptor) =>
+                Object.entries(interceptor.getStats().caches)
+            )
+        );
+    }
+
+    /**
+     * Reúne os CacheInterceptors instanciados neste container e em seus descendentes
+     * @private
+     */
+    private collectCacheInterceptors(
+        found: Set<CacheInterceptor>
+    ): Set<CacheInterceptor> {
+        const interceptor: CacheInterceptor | undefined =
+            this.singletons.get(CacheInterceptor);
+        if (interceptor) found.add(interceptor);
+        for (const child of this.children) {
+            child.collectCacheInterceptors(found);
+        }
+        return found;
+    }
+
+    /**
+     * Define os perfis ativos, usados por @Profile para decidir quais
+     * componentes são registrados
+     * @param profiles - Perfis ativos
+     *
+     * @example
+     * ```typescript
+     * GlobalContainer.setActiveProfiles(['dev']);
+     * ```
+     */
+    setActiveProfiles(profiles: string[]): void {
+        this.activeProfiles = [...profiles];
+        console.log(
+            `[INFO] [CONTAINER] Perfis ativos: ${profiles.join(", ") || "(nenhum)"}`
+        );
+    }
+
+    /**
+     * Obtém os perfis ativos
+     * Sem perfis definidos, usa os do container pai, a variável de ambiente
+     * INFUSE_PROFILES (separada por vírgulas) ou ["default"]
+     * @returns Perfis ativos
+     */
+    getActiveProfiles(): string[] {
+        if (this.activeProfiles) return [...this.activeProfiles];
+        if (this.parent) return this.parent.getActiveProfiles();
+
+        const fromEnv = (globalThis as any).process?.env?.INFUSE_PROFILES;
+        const profiles = String(fromEnv ?? "")
+            .split(",")
+            .map((profile) => profile.trim())
+            .filter(Boolean);
+        return profiles.length ? profiles : ["default"];
+    }
+
+    /**
+     * Avalia as condições de registro (@Profile, @ConditionalOn*) de uma classe
+     * @param target - Classe a ser avaliada
+     * @returns Condições não atendidas (vazio se a classe pode ser registrada)
+     *
+     * @example
+     * ```typescript
+     * const unmet = container.getUnmetConditions(FakeMailer);
+     * console.log(unmet.map((condition) => condition.description));
+     * ```
+     */
+    getUnmetConditions(target: Function): ComponentCondition[] {
+        return getUnmetConditions(target, {
+            profiles: this.getActiveProfiles(),
+            env: (globalThis as any).process?.env ?? {},
+            has: (token) => this.has(token),
+        });
+    }
+
+    /**
+     * Obtém o grafo de dependências dos provedores registrados no container
+     * Cada provedor (incluindo cada multi-provedor) é um nó; tokens referenciados
+     * que pertencem a containers ancestrais ou que não possuem provedor também
+     * aparecem como nós. Use toDot()/toMermaid() para visualizar o grafo
+     *
+     * @returns Nós e arestas do grafo
+     *
+     * @example
+     * ```typescript
+     * const graph = container.getDependencyGraph();
+     * const godServices = graph.nodes.filter((node) => node.dependencies > 8);
+     * console.log(toMermaid(graph));
+     * ```
+     */
+    getDependencyGraph(): DependencyGraph {
+        const graph: DependencyGraph = { nodes: [], edges: [] };
+        const nodesByToken = new Map<
+            Token | undefined,
+            DependencyGraphNode[]
+        >();
+        const usedIds = new Set<string>();
+
+        const addNode = (
+            token: Token | undefined,
+            provider: Provider | undefined,
+            multi: boolean,
+            inherited: boolean
+        ): DependencyGraphNode => {
+            const name = this.getTokenName(token as Token);
+            let id = name;
+            for (let index = 2; usedIds.has(id); index++) {
+                id = `${name} (${index})`;
+            }
+            usedIds.add(id);
+
+            const implementation =
+                provider?.useClass ??
+                (typeof token === "function" ? token : undefined);
+            const node: DependencyGraphNode = {
+                id,
+                token,
+                name,
+                kind: this.getProviderKind(provider),
+                scope: provider && (provider.scope ?? "singleton"),
+                stereotype: this.getStereotype(implementation),
+                implementation:
+                    provider?.useExisting !== undefined
+                        ? this.getTokenName(provider.useExisting)
+                        : implementation !== token
+                          ? implementation?.name
+                          : undefined,
+                multi,
+                inherited,
+                dependencies: 0,
+                dependents: 0,
+            };
+            graph.nodes.push(node);
+            nodesByToken.set(token, [...(nodesByToken.get(token) ?? []), node]);
+            return node;
+        };
+
+        // Nós dos provedores registrados neste container
+        const owned: [DependencyGraphNode, Provider][] = [];
+        for (const [token, provider] of this.providers) {
+            owned.push([addNode(token, provider, false, false), provider]);
+        }
+        for (const [token, providers] of this.multiProviders) {
+            for (const provider of providers) {
+                owned.push([addNode(token, provider, true, false), provider]);
+            }
+        }
+
+        // Nós de tokens referenciados: provedores de ancestrais ou ausentes
+        const getTargets = (token: Token | undefined) => {
+            const existing = nodesByToken.get(token);
+            if (existing) return existing;
+
+            const owner =
+                token === undefined
+                    ? undefined
+                    : this.getDelegate(token)?.findOwner(token);
+            if (!owner) return [addNode(token, undefined, false, false)];
+
+            const multi = owner.multiProviders.get(token!);
+            return multi
+                ? multi.map((provider) => addNode(token, provider, true, true))
+                : [addNode(token, owner.providers.get(token!), false, true)];
+        };
+
+        for (const [node, provider] of owned) {
+            for (const dependency of this.getProviderDependencies(provider)) {
+                for (const target of getTargets(dependency.token)) {
+                    graph.edges.push({
+                        from: node.id,
+                        to: target.id,
+                        propertyKey: dependency.propertyKey,
+                        optional: dependency.optional ?? false,
+                        lazy: dependency.lazy ?? false,
+                        multi: dependency.multi ?? false,
+                    });
+                    target.dependents++;
+                }
+                node.dependencies++;
+            }
         }
 
-        const instance = this.createInstance(target);
-        this.singletons.set(token, instance);
-        return instance;
+        return graph;
     }
 
     /**
-     * Resolve uma instância transient (sempre nova)
-     * @param target - Classe a ser instanciada
-     * @param requestId - ID da requisição (para injeção de dependências)
-     * @returns Nova instância
-     * @template T - Tipo da instância
-     * @private
+     * Valida a configuração do container sem instanciar nenhum componente
+     * Percorre as dependências de todos os provedores registrados (auto-registrando
+     * componentes decorados que sejam referenciados) e reporta de uma só vez:
+     * - dependências obrigatórias sem provedor ou com tipo desconhecido
+     * - todos os ciclos de dependências não interrompidos por injeção lazy
+     * - violações de escopo, como singletons que dependem de serviços request-scoped
+     *
+     * @returns Relatório estruturado da validação
+     *
+     * @example
+     * ```typescript
+     * const report = container.validate();
+     * if (!report.valid) {
+     *   console.error(formatValidationReport(report));
+     * }
+     * ```
      */
-    private resolveTransient<T>(target: Constructor<T>, requestId?: string): T {
-        return this.createInstance(target, requestId);
+    validate(): ValidationReport {
+        this.registerReachableProviders();
+        return validateDependencyGraph(this.getDependencyGraph());
     }
 
     /**
-     * Resolve uma instância request-scoped (uma por requisição)
-     * @param token - Token que identifica a dependência
-     * @param target - Classe a ser instanciada
-     * @param requestId - ID da requisição
-     * @returns Instância request-scoped
-     * @template T - Tipo da instância
+     * Auto-registra os componentes decorados referenciados pelos provedores
+     * registrados, até que nenhum novo provedor seja adicionado
      * @private
      */
-    private resolveRequest<T>(
-        token: Constructor<T> | string | symbol,
-        target: Constructor<T>,
-        requestId: string
-    ): T {
-        // Obter ou criar o mapa de instâncias para esta requisição
-        let requestMap = this.requestInstances.get(requestId);
-        if (!requestMap) {
-            requestMap = new Map();
-            this.requestInstances.set(requestId, requestMap);
-        }
+    private registerReachableProviders(): void {
+        const visited = new Set<Provider>();
+        const collect = () =>
+            [
+                ...this.providers.values(),
+                ...Array.from(this.multiProviders.values()).flat(),
+            ].filter((provider) => !visited.has(provider));
 
-        // Verificar se já existe uma instância para este token nesta requisição
-        if (requestMap.has(token)) {
-            return requestMap.get(token);
+        for (let pending = collect(); pending.length; pending = collect()) {
+            for (const provider of pending) {
+                visited.add(provider);
+                for (const dependency of this.getProviderDependencies(
+                    provider
+                )) {
+                    this.isResolvable(dependency.token);
+                }
+            }
         }
+    }
 
-        // Criar nova instância e armazenar no escopo da requisição
-        const instance = this.createInstance(target, requestId);
-        requestMap.set(token, instance);
-        return instance;
+    /**
+     * Obtém o container raiz da hierarquia
+     * @private
+     */
+    private getRoot(): Container {
+        return this.parent?.getRoot() ?? this;
     }
 
     /**
-     * Cria uma nova instância da classe, resolvendo suas dependências
-     * @param target - Classe a ser instanciada
-     * @param requestId - ID da requisição (usado para resolver dependências)
-     * @returns Nova instância com dependências injetadas
-     * @template T - Tipo da instância
+     * Obtém o container (este, um importado ou um ancestral) que registrou o token
      * @private
      */
-    private createInstance<T>(target: Constructor<T>, requestId?: string): T {
-        const deps: any[] =
-            Reflect.getMetadata("design:paramtypes", target) ?? [];
-        const resolvedDeps = deps.map((dep) => this.resolve(dep, requestId));
-        return new target(...resolvedDeps);
+    private findOwner(token: Token): Container | undefined {
+        if (this.hasOwnProvider(token)) return this;
+        return this.getDelegate(token)?.findOwner(token);
     }
 
     /**
-     * Limpa as instâncias de uma requisição específica
-     * Deve ser chamado no final de cada requisição HTTP para liberar memória
-     * @param requestId - ID da requisição a ser limpa
-     *
-     * @example
-     * ```typescript
-     * // No final da requisição HTTP
-     * container.clearRequestInstances(requestId);
-     * ```
+     * Obtém o tipo de um provedor para o grafo de dependências
+     * @private
      */
-    clearRequestInstances(requestId: string): void {
-        this.requestInstances.delete(requestId);
+    private getProviderKind(
+        provider: Provider | undefined
+    ): DependencyGraphNode["kind"] {
+        if (!provider) return "missing";
+        if ("useValue" in provider) return "value";
+        if ("useExisting" in provider) return "alias";
+        if ("useFactory" in provider) return "factory";
+        return "class";
     }
 
     /**
-     * Obtém estatísticas do container
-     * @returns Objeto com estatísticas de uso do container
-     *
-     * @example
-     * ```typescript
-     * const stats = container.getStats();
-     * console.log(`Providers: ${stats.providers}, Singletons: ${stats.singletons}`);
-     * ```
+     * Obtém o estereótipo de uma classe a partir do metadataRegistry
+     * @private
      */
-    getStats() {
-        return {
-            /** Número de provedores registrados */
-            providers: this.providers.size,
-            /** Número de instâncias singleton em cache */
-            singletons: this.singletons.size,
-            /** Número de requisições ativas com instâncias em cache */
-            activeRequests: this.requestInstances.size,
-            /** Número de resoluções pendentes */
-            pendingResolutions: this.pendingResolutions.size,
-        };
+    private getStereotype(
+        target: Function | undefined
+    ): Stereotype | undefined {
+        if (!target) return undefined;
+        const clazz = target as Constructor;
+        if (metadataRegistry.services.has(clazz)) return "service";
+        if (metadataRegistry.controllers.has(clazz)) return "controller";
+        if (metadataRegistry.processors.has(clazz)) return "processor";
+        if (metadataRegistry.configurations.has(clazz)) return "configuration";
+        if (metadataRegistry.application === clazz) return "application";
+        return undefined;
     }
 
     /**
@@ -493,7 +2414,7 @@ export class Container {
                         token
                     )}`
                 );
-                await this.resolve(token);
+                this.resolve(token);
                 console.log(
                     `[INFO] [CONTAINER] Resolvido: ${this.getTokenName(token)}`
                 );
@@ -543,6 +2464,7 @@ export class Container {
 
     /**
      * Reseta o container, limpando todos os provedores e instâncias
+     * Um container descartado com dispose() volta a aceitar registros e resoluções
      * ⚠️ Use com cuidado! Isso limpa completamente o estado do container
      *
      * @example
@@ -552,23 +2474,343 @@ export class Container {
      * ```
      */
     reset() {
+        this.clearState();
+        this.disposed = false;
+    }
+
+    /**
+     * Limpa provedores, instâncias e escopos de requisição do container
+     * @private
+     */
+    private clearState(): void {
+        for (const requestId of this.requestInstances.keys()) {
+            this.forgetRequestScope(requestId);
+        }
         this.providers.clear();
+        this.multiProviders.clear();
+        this.importedTokens.clear();
         this.singletons.clear();
         this.requestInstances.clear();
+        this.requestScopeCreatedAt.clear();
+        this.generatedScopes.clear();
+        this.warnedScopes.clear();
+        this.disposables.clear();
+    }
+
+    /**
+     * Descarta o container de forma independente do pai
+     * Descarta primeiro os filhos e depois destrói as instâncias criadas por este
+     * container (singleton e request) em ordem topológica reversa:
+     * dependentes antes de suas dependências. Transients pertencem a quem os
+     * recebeu e não são destruídos aqui. Cada instância recebe onDestroy e
+     * Symbol.asyncDispose/Symbol.dispose uma única vez, mesmo que também esteja
+     * registrada no shutdown() global. Após o descarte, o container recusa novas
+     * resoluções até ser resetado com reset()
+     *
+     * @example
+     * ```typescript
+     * const testContainer = GlobalContainer.createChild();
+     * testContainer.register(Mailer, { useValue: fakeMailer });
+     * // ... teste
+     * await testContainer.dispose();
+     *
+     * // Ou com explicit resource management
+     * await using scoped = GlobalContainer.createChild();
+     * ```
+     */
+    async dispose(): Promise<void> {
+        if (this.disposed) return;
+        this.disposed = true;
+
+        // Filhos criados por último dependem (ex.: via importações) dos anteriores
+        for (const child of Array.from(this.children).reverse()) {
+            await child.dispose();
+        }
+
+        await this.destroyInstances(this.disposables);
+
+        this.clearState();
+        this.pendingResolutions.clear();
+        this.parent?.children.delete(this);
+    }
+
+    /**
+     * Descarta o container (suporte a `await using`)
+     */
+    async [Symbol.asyncDispose](): Promise<void> {
+        await this.dispose();
+    }
+
+    /**
+     * Verifica se o container já foi descartado
+     * @returns true após dispose()
+     */
+    isDisposed(): boolean {
+        return this.disposed;
+    }
+
+    /**
+     * Destrói instâncias criadas por este container, dependentes antes das dependências
+     * Erros são registrados no log sem interromper o descarte das demais instâncias
+     * @param instances - Instâncias a serem destruídas
+     * @private
+     */
+    private async destroyInstances(
+        instances: Iterable<unknown>
+    ): Promise<void> {
+        const targets = new Set<unknown>(instances);
+        for (const instance of this.getDisposalOrder(targets)) {
+            this.disposables.delete(instance);
+            try {
+                await destroyInstance(instance);
+            } catch (error) {
+                console.error(
+                    `[ERROR] [CONTAINER] Erro ao destruir ${
+                        (instance as any).constructor?.name
+                    }:`,
+                    error
+                );
+            }
+        }
+    }
+
+    /**
+     * Ordena instâncias para o descarte: uma busca em profundidade pelas dependências
+     * registradas na construção coloca cada dependência antes de seus dependentes
+     * (mesmo através de instâncias sem hooks), e a ordem é então invertida
+     * Instâncias independentes são descartadas na ordem inversa de criação
+     * @private
+     */
+    private getDisposalOrder(targets: Set<unknown>): object[] {
+        const order: object[] = [];
+        const visited = new Set<object>();
+
+        const visit = (instance: object) => {
+            if (visited.has(instance)) return;
+            visited.add(instance);
+            for (const dependency of this.instanceDependencies.get(instance) ??
+                []) {
+                visit(dependency);
+            }
+            if (targets.has(instance) && this.disposables.has(instance)) {
+                order.push(instance);
+            }
+        };
+
+        for (const instance of this.disposables) {
+            if (targets.has(instance)) visit(instance);
+        }
+        return order.reverse();
     }
 
     /**
      * Tenta registrar automaticamente uma dependência baseado em seus decorators
+     * Tokens de abstração (classes abstratas, strings ou symbols) são vinculados
+     * aos serviços que os declaram via @Service({ provide })
+     * Por último, usa o provedor de fallback das opções do container, se houver
      * @param token - Token/classe a ser registrada
      * @returns true se conseguiu registrar, false caso contrário
      * @private
      */
-    private tryAutoRegister<T>(token: Constructor<T>): boolean {
+    private tryAutoRegister(token: Token): boolean {
+        if (this.options.autoRegister !== false && !this.options.declaredOnly) {
+            if (
+                token instanceof QualifiedToken &&
+                this.tryAutoRegisterQualified(token)
+            ) {
+                return true;
+            }
+            if (this.tryAutoRegisterBinding(token)) return true;
+            if (
+                typeof token === "function" &&
+                this.tryAutoRegisterClass(token as Constructor)
+            ) {
+                return true;
+            }
+        }
+
+        // InjectionToken com factory padrão
+        const factory =
+            token instanceof InjectionToken ? token.options.factory : undefined;
+        if (factory) {
+            // Com declaredOnly, a instância é compartilhada pelo container raiz
+            const target = this.options.declaredOnly ? this.getRoot() : this;
+            target.register(token, { useFactory: factory, scope: "singleton" });
+            console.log(
+                `[INFO] [REGISTER] Auto-registrado ${this.getTokenName(token)} via factory padrão [singleton]`
+            );
+            return true;
+        }
+
+        // Provedor de fallback configurado no container
+        const fallback = this.options.fallbackProvider?.(token);
+        if (!fallback) return false;
+
+        this.register(token, fallback);
+        return true;
+    }
+
+    /**
+     * Em containers com declaredOnly, lança um erro quando o token é uma classe
+     * decorada, ou é implementado por serviços, que nenhum @Module declara
+     * @param token - Token não encontrado
+     * @throws Error indicando as classes que precisam ser declaradas
+     * @private
+     */
+    private assertDeclared(token: Token): void {
+        const undeclared = this.getCandidateServices().filter(
+            (service) =>
+                getServiceBinding(service)?.provide === token &&
+                !getDeclaringModule(service) &&
+                !this.getUnmetConditions(service).length
+        );
+        if (
+            typeof token === "function" &&
+            this.getStereotype(token) &&
+            !getDeclaringModule(token) &&
+            !this.getUnmetConditions(token).length
+        ) {
+            undeclared.unshift(token as Constructor);
+        }
+        if (!undeclared.length) return;
+
+        throw new Error(
+            `Não foi possível resolver a dependência: ${this.getTokenName(token)}\n` +
+                `${undeclared.map((service) => service.name).join(", ")} não é declarado por nenhum módulo. ` +
+                `Adicione-o aos providers de um @Module (e aos exports, para injetá-lo em outros módulos)`
+        );
+    }
+
+    /**
+     * Registra como alias do token qualificado o serviço que declara @Named(qualifier)
+     * e implementa o token (via @Service({ provide })) ou é a própria classe do token
+     * @param token - Token qualificado
+     * @returns true se conseguiu registrar, false caso contrário
+     * @private
+     */
+    private tryAutoRegisterQualified(token: QualifiedToken): boolean {
+        const candidates = this.getQualifiedCandidates(token.token).filter(
+            (service) => getQualifier(service) === token.qualifier
+        );
+        if (candidates.length !== 1) {
+            if (candidates.length > 1) {
+                console.warn(
+                    `[WARN] [REGISTER] Múltiplas implementações para ${this.getTokenName(
+                        token
+                    )}: ${candidates.map((service) => service.name).join(", ")}`
+                );
+            }
+            return false;
+        }
+
+        const [service] = candidates as [Constructor];
+        const multi = getServiceBinding(service)?.multi ?? false;
+        this.register(token, { useExisting: service, multi });
+        console.log(
+            `[INFO] [REGISTER] Auto-registrado ${service.name} como ${this.getTokenName(
+                token
+            )}${multi ? " [multi]" : ""}`
+        );
+        return true;
+    }
+
+    /**
+     * Obtém os serviços considerados na busca de implementações de um token
+     * (as opções do container podem restringi-los, como nos módulos de testes)
+     * @private
+     */
+    private getCandidateServices(): Constructor[] {
+        return Array.from(this.options.services ?? metadataRegistry.services);
+    }
+
+    /**
+     * Obtém os serviços (com condições atendidas) que implementam um token ou são
+     * a própria classe do token e declaram um qualificador com @Named
+     * @private
+     */
+    private getQualifiedCandidates(token: Token): Constructor[] {
+        return this.getCandidateServices().filter(
+            (service) =>
+                getQualifier(service) !== undefined &&
+                (service === token ||
+                    getServiceBinding(service)?.provide === token) &&
+                !getDeclaringModule(service) &&
+                !this.getUnmetConditions(service).length
+        );
+    }
+
+    /**
+     * Registra os serviços que declaram o token via @Service({ provide }) como aliases
+     * @param token - Token de abstração
+     * @returns true se conseguiu registrar, false caso contrário
+     * @private
+     */
+    private tryAutoRegisterBinding(token: Token): boolean {
+        const implementations = this.getCandidateServices().filter(
+            (service) =>
+                getServiceBinding(service)?.provide === token &&
+                !getDeclaringModule(service) &&
+                !this.getUnmetConditions(service).length
+        );
+        if (!implementations.length) return false;
+
+        const tokenName = this.getTokenName(token);
+        const single = implementations.filter(
+            (service) => !getServiceBinding(service)!.multi
+        );
+        const selected = selectPrimary(single);
+
+        if (single.length && !selected) {
+            console.warn(
+                `[WARN] [REGISTER] Múltiplas implementações para ${tokenName}: ${single
+                    .map((service) => service.name)
+                    .join(
+                        ", "
+                    )}. Marque uma com @Primary(), qualifique o ponto de injeção com @Named() ou use { multi: true }`
+            );
+            return false;
+        }
+
+        // As classes são registradas antes do token, enquanto as condições
+        // avaliadas acima (ex.: @ConditionalOnMissingProvider) ainda são válidas
+        for (const service of implementations) {
+            if (!this.has(service)) this.tryAutoRegisterClass(service);
+        }
+
+        for (const service of implementations) {
+            const { multi } = getServiceBinding(service)!;
+            if (!multi && service !== selected) continue;
+            this.register(token, { useExisting: service, multi });
+            console.log(
+                `[INFO] [REGISTER] Auto-registrado ${service.name} como ${tokenName}${
+                    multi ? " [multi]" : ""
+                }`
+            );
+        }
+        return true;
+    }
+
+    /**
+     * Registra automaticamente uma classe marcada com decorators do framework
+     * @param token - Classe a ser registrada
+     * @returns true se conseguiu registrar, false caso contrário
+     * @private
+     */
+    private tryAutoRegisterClass<T>(token: Constructor<T>): boolean {
+        // Classes declaradas em um @Module são registradas apenas no container do módulo
+        if (getDeclaringModule(token)) return false;
+
         try {
+            // Classes com condições não atendidas (@Profile, @ConditionalOn*) não são registradas
+            if (this.getUnmetConditions(token).length) {
+                return false;
+            }
+
             // Verificar se é um serviço
             if (metadataRegistry.services.has(token)) {
                 const scope = getServiceScope(token);
                 this.register(token, { useClass: token, scope });
+                this.options.services?.add(token);
                 console.log(
                     `[INFO] [REGISTER] Auto-registrado serviço: ${token.name} [${scope}]`
                 );
@@ -624,20 +2866,118 @@ export class Container {
         }
     }
 
+    /**
+     * Descreve implementações ambíguas de um token ou, para tokens qualificados,
+     * os qualificadores disponíveis
+     * @private
+     */
+    private describeCandidates(dependency: Token): string[] {
+        if (dependency instanceof QualifiedToken) {
+            const baseName = this.getTokenName(dependency.token);
+            const available = this.getQualifiedCandidates(dependency.token).map(
+                (service) => `'${getQualifier(service)}' (${service.name})`
+            );
+            return [
+                `- Nenhuma implementação de ${baseName} declara @Named('${dependency.qualifier}')`,
+                available.length
+                    ? `- Qualificadores disponíveis: ${available.join(", ")}`
+                    : `- Declare @Service({ provide: ${baseName} }) e @Named('${dependency.qualifier}') na implementação`,
+            ];
+        }
+
+        const single = this.getCandidateServices().filter(
+            (service) =>
+                getServiceBinding(service)?.provide === dependency &&
+                !getServiceBinding(service)!.multi &&
+                !this.getUnmetConditions(service).length
+        );
+        if (single.length < 2 || selectPrimary(single)) return [];
+
+        return [
+            `- Implementações ambíguas para ${this.getTokenName(dependency)} (marque uma com @Primary() ou selecione uma com @Named no ponto de injeção):`,
+            ...single.map((service) => {
+                const qualifier = getQualifier(service);
+                return `  • ${service.name}${
+                    qualifier === undefined ? "" : ` @Named('${qualifier}')`
+                }${isPrimary(service) ? " @Primary" : ""}`;
+            }),
+        ];
+    }
+
+    /**
+     * Descreve as condições não atendidas da classe ou das implementações de um token
+     * @private
+     */
+    private describeUnmetConditions(dependency: Token): string[] {
+        const candidates: Function[] = this.getCandidateServices().filter(
+            (service) => getServiceBinding(service)?.provide === dependency
+        );
+        if (typeof dependency === "function") candidates.unshift(dependency);
+
+        const details: string[] = [];
+        for (const candidate of candidates) {
+            const unmet = this.getUnmetConditions(candidate);
+            if (!unmet.length) continue;
+            details.push(
+                `- ${candidate.name} não foi registrado: ${unmet
+                    .map((condition) => condition.description)
+                    .join(
+                        ", "
+                    )} não atendida (perfis ativos: ${this.getActiveProfiles().join(", ") || "nenhum"})`
+            );
+        }
+        return details;
+    }
+
+    /**
+     * Descreve os módulos que declaram, sem exportar para este container, a classe
+     * ou as implementações de um token
+     * @private
+     */
+    private describeModuleBoundary(dependency: Token): string[] {
+        const candidates: Function[] = this.getCandidateServices().filter(
+            (service) => getServiceBinding(service)?.provide === dependency
+        );
+        if (typeof dependency === "function") candidates.unshift(dependency);
+
+        return candidates.flatMap((candidate) => {
+            const module = getDeclaringModule(candidate);
+            return module
+                ? [
+                      `- ${candidate.name} é privado do módulo ${module.name}: adicione-o aos exports de ${module.name} e importe ${module.name} no módulo que o utiliza`,
+                  ]
+                : [];
+        });
+    }
+
     /**
      * Gera detalhes descritivos de erro para dependências não encontradas
      * @param token - Token que não foi encontrado
      * @returns String com detalhes do erro
      * @private
      */
-    private generateDependencyErrorDetails(
-        token: Constructor | string | symbol
-    ): string {
-        if (typeof token !== "function") {
-            return `- Token '${String(token)}' não é uma classe construtora`;
+    private generateDependencyErrorDetails(dependency: Token): string {
+        const conditionDetails = [
+            ...this.describeCandidates(dependency),
+            ...this.describeUnmetConditions(dependency),
+            ...this.describeModuleBoundary(dependency),
+        ];
+
+        if (dependency instanceof QualifiedToken) {
+            return conditionDetails.join("\n");
         }
 
-        const details: string[] = [];
+        if (typeof dependency !== "function") {
+            return [
+                `- Token '${String(dependency)}' não é uma classe construtora`,
+                `- Nenhum serviço declara @Service({ provide: ${String(dependency)} })`,
+                ...conditionDetails,
+            ].join("\n");
+        }
+
+        const token = dependency as Constructor;
+
+        const details: string[] = [...conditionDetails];
 
         // Verificar se a classe tem decorators conhecidos
         const hasServiceDecorator = metadataRegistry.services.has(token);
@@ -671,20 +3011,44 @@ export class Container {
             details.push(
                 `- Classe ${token.name} não possui decorators reconhecidos (@Service, @Controller, @Processor, @Configuration)`
             );
+            if (!conditionDetails.length) {
+                details.push(
+                    `- Se ${token.name} é uma abstração, declare a implementação com @Service({ provide: ${token.name} })`
+                );
+            }
         }
 
         // Verificar dependências da classe
-        const paramTypes =
-            Reflect.getMetadata("design:paramtypes", token) ?? [];
+        const paramTypes = this.getConstructorDependencies(token);
         if (paramTypes.length > 0) {
             details.push(
                 `- Classe possui ${paramTypes.length} dependência(s) no construtor:`
             );
-            paramTypes.forEach((paramType: any, index: number) => {
-                const paramName = paramType?.name || "Unknown";
-                const isRegistered = this.providers.has(paramType);
+            paramTypes.forEach(({ token: paramType, optional }, index) => {
+                const requirement = optional ? "[opcional]" : "[obrigatória]";
+                if (this.isUnresolvableParamType(paramType)) {
+                    details.push(
+                        `  ${index + 1}. ${
+                            paramType === Object ? "Object" : "undefined"
+                        } ${requirement} ⚠️ (interface/tipo sem token - use @Inject(token))`
+                    );
+                    return;
+                }
+                let paramToken: Token;
+                try {
+                    paramToken = resolveForwardRef(paramType);
+                } catch {
+                    details.push(
+                        `  ${index + 1}. forwardRef ${requirement} ⚠️ (referência ainda não definida)`
+                    );
+                    return;
+                }
+                const paramName = this.getTokenName(paramToken);
+                const isRegistered =
+                    this.providers.has(paramToken) ||
+                    this.multiProviders.has(paramToken);
                 details.push(
-                    `  ${index + 1}. ${paramName} ${
+                    `  ${index + 1}. ${paramName} ${requirement} ${
                         isRegistered ? "✅ (registrada)" : "❌ (não registrada)"
                     }`
                 );
@@ -0,0 +1,136 @@
+import type {
+    DependencyGraph,
+    DependencyGraphEdge,
+    DependencyGraphNode,
+} from "../types";
+
+/**
+ * Monta o rótulo de um nó com nome, estereótipo/tipo e escopo
+ * @private
+ */
+function describeNode(node: DependencyGraphNode): string[] {
+    const name = node.implementation
+        ? `${node.name} (${node.implementation})`
+        : node.name;
+    if (node.kind === "missing") return [name, "não registrado"];
+
+    const details: (string | undefined)[] = [
+        node.stereotype ?? node.kind,
+        node.scope,
+    ];
+    if (node.multi) details.push("multi");
+    if (node.inherited) details.push("herdado");
+    return [name, details.filter(Boolean).join(" · ")];
+}
+
+/**
+ * Monta o rótulo de uma aresta a partir de suas características
+ * @private
+ */
+function describeEdge(edge: DependencyGraphEdge): string {
+    return [
+        edge.propertyKey !== undefined ? String(edge.propertyKey) : undefined,
+        edge.lazy ? "lazy" : undefined,
+        edge.optional ? "opcional" : undefined,
+        edge.multi ? "multi" : undefined,
+    ]
+        .filter(Boolean)
+        .join(", ");
+}
+
+/**
+ * Serializa um grafo de dependências no formato Graphviz DOT
+ * Dependências lazy/opcionais são tracejadas e tokens sem provedor ficam em vermelho
+ *
+ * @param graph - Grafo obtido com container.getDependencyGraph()
+ * @returns Documento DOT
+ *
+ * @example
+ * ```typescript
+ * const dot = toDot(GlobalContainer.getDependencyGraph());
+ * await Bun.write('dependencies.dot', dot); // dot -Tsvg dependencies.dot
+ * ```
+ */
+export function toDot(graph: DependencyGraph): string {
+    const quote = (value: string) =>
+        `"${value
+            .replace(/\\/g, "\\\\")
+            .replace(/"/g, '\\"')
+            .replace(/\n/g, "\\n")}"`;
+
+    const lines = [
+        "digraph Container {",
+        "    rankdir=LR;",
+        "    node [shape=box];",
+    ];
+
+    for (const node of graph.nodes) {
+        const attributes = [`label=${quote(describeNode(node).join("\n"))}`];
+        if (node.kind === "missing") attributes.push("color=red");
+        if (node.inherited) attributes.push("style=dashed");
+        lines.push(`    ${quote(node.id)} [${attributes.join(", ")}];`);
+    }
+
+    for (const edge of graph.edges) {
+        const attributes: string[] = [];
+        const label = describeEdge(edge);
+        if (label) attributes.push(`label=${quote(label)}`);
+        if (edge.lazy || edge.optional) attributes.push("style=dashed");
+        lines.push(
+            `    ${quote(edge.from)} -> ${quote(edge.to)}${
+                attributes.length ? ` [${attributes.join(", ")}]` : ""
+            };`
+        );
+    }
+
+    lines.push("}");
+    return lines.join("\n");
+}
+
+/**
+ * Serializa um grafo de dependências no formato Mermaid (flowchart)
+ * Pode ser incluído diretamente em arquivos Markdown e descrições de PR
+ *
+ * @param graph - Grafo obtido com container.getDependencyGraph()
+ * @returns Diagrama Mermaid
+ *
+ * @example
+ * ```typescript
+ * console.log('```mermaid\n' + toMermaid(GlobalContainer.getDependencyGraph()) + '\n```');
+ * ```
+ */
+export function toMermaid(graph: DependencyGraph): string {
+    // IDs do Mermaid aceitam apenas caracteres simples
+    const ids = new Map(
+        graph.nodes.map((node, index) => [node.id, `n${index}`])
+    );
+    const escape = (value: string) =>
+        value.replace(/"/g, "#quot;").replace(/\|/g, "#124;");
+
+    const lines = ["graph LR"];
+
+    for (const node of graph.nodes) {
+        const label = escape(describeNode(node).join("<br/>"));
+        lines.push(`    ${ids.get(node.id)}["${label}"]`);
+    }
+
+    for (const edge of graph.edges) {
+        const arrow = edge.lazy || edge.optional ? "-.->" : "-->";
+        const label = describeEdge(edge);
+        lines.push(
+            `    ${ids.get(edge.from)} ${arrow}${
+                label ? `|${escape(label)}|` : ""
+            } ${ids.get(edge.to)}`
+        );
+    }
+
+    const missing = graph.nodes.filter((node) => node.kind === "missing");
+    if (missing.length) {
+        lines.push("    classDef missing stroke:#d33,color:#d33");
+        lines.push(
+            `    class ${missing.map((node) => ids.get(node.id)).join(",")} missing`
+        );
+    }
+
+    return lines.join("\n");
+}
@@ -0,0 +1,65 @@
+import type { Token } from "../types";
+
+/**
+ * Referência adiada a um token, avaliada apenas no momento da resolução
+ * Criada por forwardRef() e aceita por @Inject, @InjectAll, @Autowired, @Value
+ * e pelo array `inject` de provedores factory
+ *
+ * @template T - Tipo da instância associada ao token
+ */
+export class ForwardRef<T = any> {
+    /**
+     * Cria uma nova referência adiada
+     * @param factory - Função que retorna o token quando chamada
+     */
+    constructor(readonly factory: () => Token<T>) {}
+}
+
+/**
+ * Cria uma referência a um token que ainda pode não estar definido no momento
+ * da decoração (classes declaradas depois no arquivo ou importações circulares)
+ * O token só é avaliado quando a dependência é resolvida pelo container
+ *
+ * @param factory - Função que retorna o token
+ * @returns Referência adiada ao token
+ *
+ * @example
+ * ```typescript
+ * @Service()
+ * class OrderService {
+ *   constructor(
+ *     @Inject(forwardRef(() => PaymentService)) private payments: Lazy<PaymentService>
+ *   ) {}
+ * }
+ *
+ * @Service()
+ * class PaymentService {}
+ * ```
+ */
+export function forwardRef<T>(factory: () => Token<T>): ForwardRef<T> {
+    return new ForwardRef(factory);
+}
+
+/**
+ * Obtém o token real de uma referência adiada
+ * Tokens comuns são retornados sem alteração
+ *
+ * @param token - Token ou referência criada por forwardRef()
+ * @returns Token avaliado
+ * @throws Error quando a referência retorna undefined
+ */
+export function resolveForwardRef<T>(
+    token: Token<T> | ForwardRef<T>
+): Token<T> {
+    if (!(token instanceof ForwardRef)) return token;
+
+    const resolved = token.factory();
+    if (resolved === undefined) {
+        throw new Error(
+            `forwardRef retornou undefined: a classe referenciada ainda não foi definida.\n` +
+                `Verifique se ela é exportada corretamente e se a função é avaliada apenas após o carregamento dos módulos:\n` +
+                `   @Inject(forwardRef(() => MinhaClasse))`
+        );
+    }
+    return resolved;
+}
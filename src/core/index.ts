@@ -1,6 +1,16 @@
+export * from "./cache";
 export * from "./container";
+export * from "./dependency-graph";
+export * from "./forward-ref";
+export * from "./injection-token";
+export * from "./interception";
 export * from "./life-cycle";
 export * from "./loader";
 export * from "./metadata-registry";
+export * from "./modules";
+export * from "./plugins";
+export * from "./providers";
+export * from "./qualified-token";
 export * from "./scanner";
+export * from "./validation";
 
@@ -0,0 +1,60 @@
+/**
+ * Opções de criação de um InjectionToken
+ * @template T - Tipo do valor associado ao token
+ */
+export interface InjectionTokenOptions<T> {
+    /**
+     * Factory padrão usada quando nenhum provedor foi registrado para o token
+     * O valor criado é tratado como singleton
+     */
+    factory?: () => T;
+}
+
+/**
+ * Token tipado para dependências que não são classes (valores, interfaces, configurações)
+ * Carrega o tipo do valor, permitindo que `resolve`, `register`, `@Inject` e `@Bean`
+ * inferam o tipo sem declarações manuais, e possui uma descrição usada em logs e erros
+ *
+ * @template T - Tipo do valor associado ao token
+ *
+ * @example
+ * ```typescript
+ * interface AppSettings {
+ *   apiUrl: string;
+ * }
+ *
+ * export const APP_SETTINGS = new InjectionToken<AppSettings>('AppSettings', {
+ *   factory: () => ({ apiUrl: 'http://localhost' }),
+ * });
+ *
+ * container.register(APP_SETTINGS, { useValue: { apiUrl: 'https://api.example.com' } });
+ * const settings = container.resolve(APP_SETTINGS); // AppSettings
+ *
+ * @Service()
+ * class ApiClient {
+ *   constructor(@Inject(APP_SETTINGS) private settings: AppSettings) {}
+ * }
+ * ```
+ */
+export class InjectionToken<T = unknown> {
+    /** Marcador do tipo associado ao token (existe apenas em tempo de compilação) */
+    declare readonly __type?: T;
+
+    /**
+     * Cria um novo token de injeção
+     * @param description - Descrição exibida em logs e mensagens de erro
+     * @param options - Opções do token, como a factory padrão
+     */
+    constructor(
+        readonly description: string,
+        readonly options: InjectionTokenOptions<T> = {}
+    ) {}
+
+    /**
+     * Representação textual do token para logs e mensagens de erro
+     * @returns String no formato `InjectionToken(descrição)`
+     */
+    toString(): string {
+        return `InjectionToken(${this.description})`;
+    }
+}
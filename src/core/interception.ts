@@ -0,0 +1,234 @@
+import type {
+    AfterInterceptor,
+    AroundInterceptor,
+    BeforeInterceptor,
+    Constructor,
+    InterceptorBinding,
+    InterceptorKind,
+    InvocationContext,
+} from "../types";
+import {
+    getClassInterceptors,
+    getInterceptedMethods,
+    getMethodInterceptors,
+} from "../decorators/interceptor";
+
+/**
+ * Métodos que não são interceptados por vínculos de classe
+ * (hooks de ciclo de vida são chamados pelo container)
+ */
+const EXCLUDED_METHODS = new Set<string | symbol>([
+    "constructor",
+    "onInit",
+    "onDestroy",
+    "onRequestStart",
+    "onRequestEnd",
+]);
+
+/** Interceptador já resolvido pelo container */
+type ResolvedInterceptor =
+    | { kind: "before"; instance: BeforeInterceptor }
+    | { kind: "after"; instance: AfterInterceptor }
+    | { kind: "around"; instance: AroundInterceptor };
+
+/**
+ * Verifica se um valor é uma Promise (ou thenable)
+ * @private
+ */
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+    return (
+        (typeof value === "object" || typeof value === "function") &&
+        value !== null &&
+        typeof (value as PromiseLike<unknown>).then === "function"
+    );
+}
+
+/**
+ * Lista os métodos da classe e de suas classes pai
+ * @private
+ */
+function getPrototypeMethods(target: Constructor): (string | symbol)[] {
+    const methods = new Set<string | symbol>();
+    let prototype = target.prototype;
+
+    while (prototype && prototype !== Object.prototype) {
+        for (const key of Object.getOwnPropertyNames(prototype)) {
+            const descriptor = Object.getOwnPropertyDescriptor(prototype, key);
+            if (
+                typeof descriptor?.value === "function" &&
+                !EXCLUDED_METHODS.has(key)
+            ) {
+                methods.add(key);
+            }
+        }
+        prototype = Object.getPrototypeOf(prototype);
+    }
+    return Array.from(methods);
+}
+
+/**
+ * Executa o interceptador @After depois de `proceed()`, com sucesso ou erro
+ * O erro registrado no contexto é relançado; caso contrário, retorna `context.result`
+ * @private
+ */
+function runAfter(
+    interceptor: AfterInterceptor,
+    context: InvocationContext,
+    proceed: () => unknown
+): unknown {
+    const complete = (): unknown => {
+        const settle = () => {
+            if (context.error !== undefined) throw context.error;
+            return context.result;
+        };
+        const pending = interceptor.after(context);
+        return isPromiseLike(pending) ? pending.then(settle) : settle();
+    };
+    const succeed = (value: unknown) => {
+        context.result = value;
+        context.error = undefined;
+        return complete();
+    };
+    const fail = (error: unknown) => {
+        context.error = error;
+        return complete();
+    };
+
+    let result: unknown;
+    try {
+        result = proceed();
+    } catch (error) {
+        return fail(error);
+    }
+    return isPromiseLike(result) ? result.then(succeed, fail) : succeed(result);
+}
+
+/**
+ * Executa a cadeia de interceptadores a partir de uma posição
+ * Ao fim da cadeia, chama o método original com os argumentos do contexto
+ * @private
+ */
+function invokeChain(
+    chain: ResolvedInterceptor[],
+    index: number,
+    context: InvocationContext,
+    method: Function
+): unknown {
+    const link = chain[index];
+    if (!link) return method.apply(context.target, context.args);
+
+    const proceed = () => invokeChain(chain, index + 1, context, method);
+    switch (link.kind) {
+        case "before": {
+            const pending = link.instance.before(context);
+            return isPromiseLike(pending) ? pending.then(proceed) : proceed();
+        }
+        case "after":
+            return runAfter(link.instance, context, proceed);
+        case "around":
+            return link.instance.around(context, proceed);
+    }
+}
+
+/**
+ * Verifica se uma classe possui interceptadores vinculados
+ * @param target - Classe a ser inspecionada
+ * @returns true se a classe ou algum de seus métodos declara interceptadores
+ */
+export function hasInterceptors(target: Function): boolean {
+    return (
+        getClassInterceptors(target).length > 0 ||
+        getInterceptedMethods(target).length > 0
+    );
+}
+
+/**
+ * Substitui os métodos interceptados de uma instância por funções que executam
+ * a cadeia de interceptadores: primeiro os da classe, depois os do método, na
+ * ordem de declaração. Métodos assíncronos são aguardados antes de @After
+ *
+ * @param instance - Instância recém-criada
+ * @param target - Classe da instância
+ * @param resolve - Resolve a instância de um interceptador (gerenciada pelo container)
+ * @param getRequestId - Obtém o ID do escopo de requisição de cada chamada
+ *
+ * @example
+ * ```typescript
+ * const service = new OrderService();
+ * applyInterceptors(service, OrderService, (interceptor) =>
+ *   container.resolve(interceptor)
+ * );
+ * ```
+ */
+export function applyInterceptors<T>(
+    instance: T,
+    target: Constructor<T>,
+    resolve: (interceptor: Constructor) => object,
+    getRequestId: () => string | undefined = () => undefined
+): void {
+    const classBindings = getClassInterceptors(target);
+    const methods = classBindings.length
+        ? getPrototypeMethods(target)
+        : getInterceptedMethods(target);
+    const resolved = new Map<Constructor, object>();
+
+    const resolveBinding = (binding: InterceptorBinding) => {
+        let interceptor = resolved.get(binding.interceptor);
+        if (!interceptor) {
+            interceptor = resolve(binding.interceptor);
+            resolved.set(binding.interceptor, interceptor);
+        }
+        assertImplements(interceptor, binding.kind, binding.interceptor);
+        return {
+            kind: binding.kind,
+            instance: interceptor,
+        } as ResolvedInterceptor;
+    };
+
+    for (const methodName of methods) {
+        const method = (instance as any)[methodName];
+        if (typeof method !== "function") continue;
+
+        const bindings = [
+            ...classBindings,
+            ...getMethodInterceptors(target.prototype, methodName),
+        ];
+        if (!bindings.length) continue;
+
+        const chain = bindings.map(resolveBinding);
+        const intercepted = function (...args: unknown[]) {
+            const context: InvocationContext<T> = {
+                target: instance,
+                targetClass: target,
+                methodName,
+                requestId: getRequestId(),
+                args,
+            };
+            return invokeChain(chain, 0, context, method);
+        };
+        Object.defineProperty(intercepted, "name", { value: method.name });
+        Object.defineProperty(instance as object, methodName, {
+            value: intercepted,
+            writable: true,
+            configurable: true,
+        });
+    }
+}
+
+/**
+ * Garante que o interceptador implementa o método exigido pelo tipo de vínculo
+ * @private
+ */
+function assertImplements(
+    interceptor: object,
+    kind: InterceptorKind,
+    interceptorClass: Constructor
+): void {
+    if (typeof (interceptor as any)[kind] !== "function") {
+        throw new Error(
+            `${interceptorClass.name} foi usado com @${
+                kind.charAt(0).toUpperCase() + kind.slice(1)
+            } mas não implementa o método ${kind}()`
+        );
+    }
+}
@@ -51,11 +51,11 @@ interface LifeCycleRegistry {
         onDestroy: () => void | Promise<void>;
     }>;
 
-    /** Instâncias transient registradas para cleanup */
-    transient: Array<{
-        instance: LifeCycleAware;
-        onDestroy: () => void | Promise<void>;
-    }>;
+    /**
+     * Instâncias transient registradas para cleanup, mantidas por referência fraca:
+     * transients descartados por quem os recebeu são coletados normalmente
+     */
+    transient: Set<WeakRef<LifeCycleAware>>;
 
     /** Instâncias request-scoped organizadas por ID de requisição */
     request: Map<
@@ -74,15 +74,90 @@ interface LifeCycleRegistry {
  */
 const lifecycleRegistry: LifeCycleRegistry = {
     singleton: [],
-    transient: [],
+    transient: new Set(),
     request: new Map(),
 };
 
+/**
+ * Remove do registry as referências de transients já coletados
+ * @private
+ */
+const transientFinalizer = new FinalizationRegistry<WeakRef<LifeCycleAware>>(
+    (ref) => lifecycleRegistry.transient.delete(ref)
+);
+
+/**
+ * Hooks executados no início do shutdown(), registrados com addShutdownHook()
+ * @private
+ */
+const shutdownHooks = new Set<() => void | Promise<void>>();
+
+/**
+ * Instâncias que já foram destruídas, compartilhado entre o registry global e os
+ * containers para que onDestroy não seja executado duas vezes
+ * @private
+ */
+const destroyedInstances = new WeakSet<object>();
+
+/**
+ * Verifica se uma instância possui hooks de destruição
+ * (onDestroy, Symbol.dispose ou Symbol.asyncDispose)
+ * @param instance - Instância a ser verificada
+ * @returns true se a instância precisa ser destruída
+ */
+export function hasDestroyHooks(instance: unknown): instance is object {
+    if (
+        instance === null ||
+        (typeof instance !== "object" && typeof instance !== "function")
+    ) {
+        return false;
+    }
+
+    const candidate = instance as any;
+    return (
+        typeof candidate.onDestroy === "function" ||
+        typeof candidate[Symbol.asyncDispose] === "function" ||
+        typeof candidate[Symbol.dispose] === "function"
+    );
+}
+
+/**
+ * Destrói uma instância executando onDestroy e, em seguida, Symbol.asyncDispose
+ * ou Symbol.dispose. Cada instância é destruída no máximo uma vez, mesmo que
+ * esteja registrada no registry global e em um container
+ * @param instance - Instância a ser destruída
+ *
+ * @example
+ * ```typescript
+ * await destroyInstance(connection);
+ * await destroyInstance(connection); // ignorado: já destruída
+ * ```
+ */
+export async function destroyInstance(instance: unknown): Promise<void> {
+    if (!hasDestroyHooks(instance) || destroyedInstances.has(instance)) return;
+    destroyedInstances.add(instance);
+
+    const target = instance as any;
+    if (typeof target.onDestroy === "function") {
+        await target.onDestroy();
+    }
+    if (typeof target[Symbol.asyncDispose] === "function") {
+        await target[Symbol.asyncDispose]();
+    } else if (typeof target[Symbol.dispose] === "function") {
+        target[Symbol.dispose]();
+    }
+}
+
 /**
  * Aplica os hooks de ciclo de vida apropriados a uma instância
+ * O container aplica o ciclo de vida a toda instância que cria; chame diretamente
+ * apenas para instâncias criadas fora do container
  * @param instance - Instância do componente
  * @param scope - Escopo do ciclo de vida (singleton, transient, request)
  * @param requestId - ID da requisição (necessário para escopo request)
+ * @param options.initialize - Se false, não executa onInit (o container o executa
+ * depois das dependências, respeitando timeouts)
+ * @returns Promise do onInit quando ele é assíncrono (erros também são registrados no log)
  *
  * @example
  * ```typescript
@@ -93,12 +168,15 @@ const lifecycleRegistry: LifeCycleRegistry = {
 export function applyLifecycle(
     instance: any,
     scope: LifeCycleOpt = "singleton",
-    requestId?: string
-): void {
+    requestId?: string,
+    options: { initialize?: boolean } = {}
+): Promise<void> | void {
     // Executar onInit se existir
-    if (typeof instance.onInit === "function") {
+    let initialization: Promise<void> | undefined;
+    if (options.initialize !== false && typeof instance.onInit === "function") {
         const result = instance.onInit();
         if (result instanceof Promise) {
+            initialization = result;
             result.catch((error) => {
                 console.error(
                     `Erro no onInit de ${instance.constructor.name}:`,
@@ -125,8 +203,8 @@ export function applyLifecycle(
         }
     }
 
-    // Registrar para cleanup se tiver onDestroy
-    if (typeof instance.onDestroy === "function") {
+    // Registrar para cleanup se tiver onDestroy (ou Symbol.dispose/asyncDispose)
+    if (hasDestroyHooks(instance)) {
         registerForCleanup(instance, scope, requestId);
     }
 
@@ -138,6 +216,8 @@ export function applyLifecycle(
     ) {
         registerForRequestCleanup(instance, requestId);
     }
+
+    return initialization;
 }
 
 /**
@@ -154,16 +234,19 @@ function registerForCleanup(
 ): void {
     const cleanupRef = {
         instance,
-        onDestroy: instance.onDestroy!.bind(instance),
+        onDestroy: () => destroyInstance(instance),
     };
 
     switch (scope) {
         case "singleton":
             lifecycleRegistry.singleton.push(cleanupRef);
             break;
-        case "transient":
-            lifecycleRegistry.transient.push(cleanupRef);
+        case "transient": {
+            const ref = new WeakRef(instance);
+            lifecycleRegistry.transient.add(ref);
+            transientFinalizer.register(instance, ref);
             break;
+        }
         case "request":
             if (requestId) {
                 const requestInstance = instance as RequestLifeCycleAware;
@@ -203,11 +286,15 @@ function registerForRequestCleanup(
     const existingRefs = lifecycleRegistry.request.get(requestId)!;
     const existingRef = existingRefs.find((ref) => ref.instance === instance);
 
+    const onRequestEnd = instance.onRequestEnd?.bind(instance) || (() => {});
     if (existingRef) {
         // Atualizar referência existente
-        existingRef.onRequestEnd =
-            instance.onRequestEnd?.bind(instance) || (() => {});
+        existingRef.onRequestEnd = onRequestEnd;
+        return;
     }
+
+    // Instâncias sem onDestroy ainda não possuem referência de cleanup
+    existingRefs.push({ instance, onDestroy: () => {}, onRequestEnd });
 }
 
 /**
@@ -252,7 +339,8 @@ export async function cleanupRequest(requestId: string): Promise<void> {
 }
 
 /**
- * Executa o cleanup de todas as instâncias transient
+ * Executa o cleanup das instâncias transient ainda em memória
+ * Transients já coletados pelo garbage collector não são destruídos
  * Útil para limpeza periódica ou em situações de baixa memória
  *
  * @example
@@ -264,19 +352,39 @@ export async function cleanupRequest(requestId: string): Promise<void> {
  * ```
  */
 export async function cleanupTransient(): Promise<void> {
-    console.log(
-        `🧹 Limpando ${lifecycleRegistry.transient.length} instâncias transient`
-    );
+    const instances = Array.from(lifecycleRegistry.transient, (ref) =>
+        ref.deref()
+    ).filter((instance) => instance !== undefined);
+    lifecycleRegistry.transient.clear();
+
+    console.log(`🧹 Limpando ${instances.length} instâncias transient`);
 
-    for (const ref of lifecycleRegistry.transient) {
+    for (const instance of instances) {
         try {
-            await ref.onDestroy();
+            await destroyInstance(instance);
         } catch (error) {
             console.error(`Erro no cleanup transient:`, error);
         }
     }
+}
 
-    lifecycleRegistry.transient.length = 0;
+/**
+ * Registra um hook executado no início do shutdown(), antes da limpeza das
+ * instâncias (ex.: os hooks onShutdown dos plugins)
+ * Os hooks são executados na ordem inversa do registro
+ * @param hook - Função executada no shutdown
+ * @returns Função que remove o hook
+ *
+ * @example
+ * ```typescript
+ * const remove = addShutdownHook(() => exporter.flush());
+ * ```
+ */
+export function addShutdownHook(hook: () => void | Promise<void>): () => void {
+    shutdownHooks.add(hook);
+    return () => {
+        shutdownHooks.delete(hook);
+    };
 }
 
 /**
@@ -284,9 +392,10 @@ export async function cleanupTransient(): Promise<void> {
  * Limpa todas as instâncias em todos os escopos de forma ordenada
  *
  * Ordem de cleanup:
- * 1. Requisições ativas (request-scoped)
- * 2. Instâncias transient
- * 3. Instâncias singleton
+ * 1. Hooks registrados com addShutdownHook()
+ * 2. Requisições ativas (request-scoped)
+ * 3. Instâncias transient
+ * 4. Instâncias singleton
  *
  * @example
  * ```typescript
@@ -300,6 +409,17 @@ export async function cleanupTransient(): Promise<void> {
 export async function shutdown(): Promise<void> {
     console.log("[INFO] [LIFECYCLE] Iniciando shutdown da aplicação...");
 
+    // Executar os hooks de shutdown (o último registrado primeiro)
+    const hooks = Array.from(shutdownHooks).reverse();
+    shutdownHooks.clear();
+    for (const hook of hooks) {
+        try {
+            await hook();
+        } catch (error) {
+            console.error(`Erro no hook de shutdown:`, error);
+        }
+    }
+
     // Limpar todas as requisições ativas
     const activeRequests = Array.from(lifecycleRegistry.request.keys());
     for (const requestId of activeRequests) {
@@ -339,8 +459,8 @@ export function getLifecycleStats() {
     return {
         /** Número de instâncias singleton registradas */
         singletons: lifecycleRegistry.singleton.length,
-        /** Número de instâncias transient registradas */
-        transients: lifecycleRegistry.transient.length,
+        /** Número de instâncias transient registradas (ainda não coletadas) */
+        transients: lifecycleRegistry.transient.size,
         /** Número de requisições ativas */
         activeRequests: lifecycleRegistry.request.size,
         /** Número total de instâncias request-scoped */
@@ -349,3 +469,34 @@ export function getLifecycleStats() {
         ).reduce((total, [, instances]) => total + instances.length, 0),
     };
 }
+
+/**
+ * Captura o estado atual do registry de ciclo de vida
+ * Usado pelo módulo de testes para desfazer os registros feitos durante um teste
+ * @returns Função que restaura o estado capturado
+ *
+ * @example
+ * ```typescript
+ * const restore = captureLifecycleState();
+ * applyLifecycle(new MyService(), 'singleton');
+ * restore(); // MyService não está mais registrado para cleanup
+ * ```
+ */
+export function captureLifecycleState(): () => void {
+    const singleton = [...lifecycleRegistry.singleton];
+    const transient = new Set(lifecycleRegistry.transient);
+    const request = Array.from(
+        lifecycleRegistry.request,
+        ([requestId, refs]) => [requestId, [...refs]] as const
+    );
+
+    return () => {
+        lifecycleRegistry.singleton.splice(0, Infinity, ...singleton);
+        lifecycleRegistry.transient.clear();
+        for (const ref of transient) lifecycleRegistry.transient.add(ref);
+        lifecycleRegistry.request.clear();
+        for (const [requestId, refs] of request) {
+            lifecycleRegistry.request.set(requestId, [...refs]);
+        }
+    };
+}
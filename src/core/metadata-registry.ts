@@ -32,9 +32,55 @@ export const metadataRegistry = {
     /** Classe principal da aplicação marcada com @Application */
     application: {} as Constructor,
     
+    /** Conjunto de classes marcadas como @Module */
+    modules: new Set<Constructor>(),
+    
     /** Conjunto de classes de middleware (funcionalidade futura) */
     middlewares: new Set<Constructor>(),
     
     /** Mapeamento de controladores para suas rotas HTTP */
     httpRoutes: new Map<Constructor, HttpRouteMetadata[]>(),
 };
+
+/**
+ * Captura o estado atual do registry de metadados
+ * Usado pelo módulo de testes para desfazer registros feitos durante um teste
+ * @returns Função que restaura o estado capturado
+ *
+ * @example
+ * ```typescript
+ * const restore = captureMetadataState();
+ * @Service() class TemporaryService {}
+ * restore(); // TemporaryService não está mais em metadataRegistry.services
+ * ```
+ */
+export function captureMetadataState(): () => void {
+    const registry = metadataRegistry as Record<string, unknown>;
+    const snapshot = Object.entries(registry).map(
+        ([key, value]) =>
+            [
+                key,
+                value instanceof Set
+                    ? new Set(value)
+                    : value instanceof Map
+                      ? new Map(value)
+                      : value,
+            ] as const
+    );
+
+    return () => {
+        for (const [key, value] of snapshot) {
+            const current = registry[key];
+            // Coleções são restauradas no lugar para preservar referências existentes
+            if (current instanceof Set && value instanceof Set) {
+                current.clear();
+                value.forEach((item) => current.add(item));
+            } else if (current instanceof Map && value instanceof Map) {
+                current.clear();
+                value.forEach((item, itemKey) => current.set(itemKey, item));
+            } else {
+                registry[key] = value;
+            }
+        }
+    };
+}
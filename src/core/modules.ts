@@ -0,0 +1,422 @@
+import type {
+    Constructor,
+    LifeCycleOpt,
+    ModuleImport,
+    ModuleMetadata,
+    ModuleProvider,
+    Provider,
+    Token,
+} from "../types";
+import type { Container } from "./container";
+import { InjectionToken } from "./injection-token";
+import { registerDeclaredProvider } from "./providers";
+import {
+    declareModuleComponents,
+    getDeclaringModule,
+    getModuleMetadata,
+    isModule,
+} from "../decorators/module";
+
+/** Módulos construídos, pela definição importada (classe ou módulo dinâmico) */
+const moduleRefs = new WeakMap<ModuleImport, ModuleRef>();
+
+/** Instâncias construídas de cada classe de módulo */
+const moduleInstances = new WeakMap<Constructor, ModuleRef[]>();
+
+/**
+ * Obtém o nome de um token para mensagens de erro
+ * @private
+ */
+function describeToken(token: Token): string {
+    if (typeof token === "function") return token.name;
+    if (token instanceof InjectionToken) return token.toString();
+    return String(token);
+}
+
+/**
+ * Módulo construído: o container do módulo e os tokens que ele exporta
+ *
+ * @example
+ * ```typescript
+ * const users = getModuleRef(UsersModule)!;
+ * const service = users.get(UserService);
+ * ```
+ */
+export class ModuleRef {
+    /** Provedores registrados no container do módulo, por token */
+    readonly providers = new Map<Token, Provider>();
+
+    /** Tokens exportados e o container que registrou cada um */
+    readonly exports = new Map<Token, Container>();
+
+    /**
+     * @param type - Classe do módulo
+     * @param metadata - Definição do módulo (combinada com a do módulo dinâmico, se houver)
+     * @param container - Container do módulo (filho do container da aplicação)
+     * @param imports - Módulos importados
+     */
+    constructor(
+        readonly type: Constructor,
+        readonly metadata: ModuleMetadata,
+        readonly container: Container,
+        readonly imports: ModuleRef[]
+    ) {}
+
+    /** Nome do módulo */
+    get name(): string {
+        return this.type.name;
+    }
+
+    /**
+     * Resolve uma dependência no container do módulo, incluindo provedores privados
+     * @param token - Token da dependência
+     * @returns Instância da dependência
+     */
+    get<T>(token: Token<T>): T {
+        return this.container.resolve(token);
+    }
+
+    /**
+     * Resolve uma dependência no container do módulo aguardando provedores assíncronos
+     * @param token - Token da dependência
+     * @returns Promise com a instância da dependência
+     */
+    resolveAsync<T>(token: Token<T>): Promise<T> {
+        return this.container.resolveAsync(token);
+    }
+}
+
+/**
+ * Obtém um módulo construído por buildModules()
+ * Uma classe identifica o módulo quando ele tem uma única instância; módulos
+ * dinâmicos importados várias vezes são obtidos pelo objeto importado
+ * @param definition - Classe do módulo ou objeto do módulo dinâmico
+ * @returns Módulo construído ou undefined se ainda não foi construído
+ * @throws Error se a classe tem várias instâncias
+ *
+ * @example
+ * ```typescript
+ * const users = getModuleRef(UsersModule);
+ * const primary = getModuleRef(primaryDatabase); // primaryDatabase = DatabaseModule.forRoot(...)
+ * ```
+ */
+export function getModuleRef(definition: ModuleImport): ModuleRef | undefined {
+    const ref = moduleRefs.get(definition);
+    if (ref || typeof definition !== "function") return ref;
+    return getSingleInstance(definition);
+}
+
+/**
+ * Obtém o container do módulo que declara um provedor ou controlador
+ * @param target - Classe declarada em providers ou controllers de um @Module
+ * @returns Container do módulo ou undefined se a classe não pertence a um
+ * módulo construído
+ * @throws Error se o módulo que declara a classe tem várias instâncias
+ */
+export function getModuleContainer(target: Function): Container | undefined {
+    const moduleClass = getDeclaringModule(target);
+    return moduleClass && getSingleInstance(moduleClass)?.container;
+}
+
+/**
+ * Obtém a única instância construída de uma classe de módulo
+ * @private
+ */
+function getSingleInstance(moduleClass: Constructor): ModuleRef | undefined {
+    const instances = moduleInstances.get(moduleClass) ?? [];
+    if (instances.length > 1) {
+        throw new Error(
+            `${moduleClass.name} possui ${instances.length} instâncias (módulo dinâmico importado várias vezes): use o objeto importado em getModuleRef()`
+        );
+    }
+    return instances[0];
+}
+
+/**
+ * Constrói os módulos alcançáveis a partir do módulo raiz, criando um container
+ * filho por módulo. Cada container recebe os exports dos módulos importados;
+ * os exports do módulo raiz e dos módulos globais são importados no container pai
+ * Módulos estáticos importados várias vezes são construídos uma única vez; cada
+ * módulo dinâmico (ex.: retornado por forRoot()) gera sua própria instância
+ * Uma classe não pode ser importada de forma estática e dinâmica ao mesmo tempo,
+ * e módulos que declaram controllers só podem ter uma instância (as rotas são
+ * resolvidas no container do módulo)
+ *
+ * @param rootModule - Módulo raiz da aplicação (classe ou módulo dinâmico)
+ * @param parent - Container pai dos containers dos módulos
+ * @returns Módulos em ordem de dependência (o raiz por último)
+ * @throws Error em importações circulares, imports que não são módulos,
+ * exports que o módulo não provê ou instâncias ambíguas de um módulo
+ *
+ * @example
+ * ```typescript
+ * const modules = buildModules(AppModule, GlobalContainer);
+ * ```
+ */
+export function buildModules(
+    rootModule: ModuleImport,
+    parent: Container
+): ModuleRef[] {
+    const built = new Map<ModuleImport, ModuleRef>();
+    const root = buildModule(rootModule, parent, built, []);
+
+    const instances = new Map<Constructor, ModuleRef[]>();
+    for (const [definition, ref] of built) {
+        moduleRefs.set(definition, ref);
+        instances.set(ref.type, [...(instances.get(ref.type) ?? []), ref]);
+
+        if (ref !== root && !ref.metadata.global) continue;
+        for (const [token, source] of ref.exports) {
+            parent.importProvider(token, source);
+        }
+    }
+    for (const [moduleClass, refs] of instances) {
+        moduleInstances.set(moduleClass, refs);
+    }
+
+    return Array.from(built.values());
+}
+
+/**
+ * Constrói um módulo depois dos módulos que ele importa
+ * @private
+ */
+function buildModule(
+    definition: ModuleImport,
+    parent: Container,
+    built: Map<ModuleImport, ModuleRef>,
+    path: ModuleImport[]
+): ModuleRef {
+    const moduleClass =
+        typeof definition === "function" ? definition : definition.module;
+    if (path.includes(definition)) {
+        throw new Error(
+            `Importação circular entre módulos: ${[...path, definition]
+                .map(getImportName)
+                .join(" -> ")}`
+        );
+    }
+
+    const existing = built.get(definition);
+    if (existing) return existing;
+
+    const metadata = resolveModuleMetadata(definition);
+    assertSingleInstanceAllowed(definition, metadata, built);
+    const imports = (metadata.imports ?? []).map((imported, index) => {
+        if (!imported) {
+            throw new Error(
+                `${moduleClass.name} importa um módulo indefinido (posição ${index}); verifique importações circulares entre arquivos`
+            );
+        }
+        return buildModule(imported, parent, built, [...path, definition]);
+    });
+
+    const ref = new ModuleRef(
+        moduleClass,
+        metadata,
+        parent.createChild({ declaredOnly: true }),
+        imports
+    );
+    for (const imported of imports) {
+        for (const [token, source] of imported.exports) {
+            ref.container.importProvider(token, source);
+        }
+    }
+
+    for (const provider of metadata.providers ?? []) {
+        registerProvider(ref, provider);
+    }
+    for (const controller of metadata.controllers ?? []) {
+        registerController(ref, controller);
+    }
+    collectExports(ref, metadata);
+
+    built.set(definition, ref);
+    console.log(
+        `[INFO] [SCANNER] Módulo ${ref.name} construído: ${ref.providers.size} provedor(es), exports: ${
+            Array.from(ref.exports.keys()).map(describeToken).join(", ") ||
+            "nenhum"
+        }`
+    );
+    return ref;
+}
+
+/**
+ * Obtém a definição de um módulo importado; em módulos dinâmicos, os campos do
+ * objeto são combinados com a definição de @Module da classe
+ * @private
+ */
+function resolveModuleMetadata(definition: ModuleImport): ModuleMetadata {
+    if (typeof definition === "function") {
+        const metadata = getModuleMetadata(definition);
+        if (!metadata) {
+            throw new Error(
+                `${definition.name} não é um módulo: decore a classe com @Module()`
+            );
+        }
+        return metadata;
+    }
+
+    const { module: moduleClass, ...dynamic } = definition;
+    if (typeof moduleClass !== "function") {
+        throw new Error(
+            "Módulo dinâmico sem classe: informe `module` no objeto retornado (ex.: forRoot())"
+        );
+    }
+    declareModuleComponents(moduleClass, dynamic);
+
+    const metadata = getModuleMetadata(moduleClass) ?? {};
+    return {
+        imports: [...(metadata.imports ?? []), ...(dynamic.imports ?? [])],
+        providers: [
+            ...(metadata.providers ?? []),
+            ...(dynamic.providers ?? []),
+        ],
+        controllers: [
+            ...(metadata.controllers ?? []),
+            ...(dynamic.controllers ?? []),
+        ],
+        exports: [...(metadata.exports ?? []), ...(dynamic.exports ?? [])],
+        global: dynamic.global ?? metadata.global,
+    };
+}
+
+/**
+ * Rejeita uma nova instância de uma classe de módulo já construída quando a
+ * classe é importada de forma estática e dinâmica, ou quando declara controllers
+ * @private
+ */
+function assertSingleInstanceAllowed(
+    definition: ModuleImport,
+    metadata: ModuleMetadata,
+    built: Map<ModuleImport, ModuleRef>
+): void {
+    const moduleClass =
+        typeof definition === "function" ? definition : definition.module;
+    const others = Array.from(built.keys()).filter(
+        (other) =>
+            (typeof other === "function" ? other : other.module) === moduleClass
+    );
+    if (!others.length) return;
+
+    const isStatic = typeof definition === "function";
+    if (others.some((other) => (typeof other === "function") !== isStatic)) {
+        throw new Error(
+            `${moduleClass.name} é importado de forma estática e como módulo dinâmico: importe apenas uma das formas`
+        );
+    }
+    const declaresControllers =
+        !!metadata.controllers?.length ||
+        others.some((other) => built.get(other)!.metadata.controllers?.length);
+    if (declaresControllers) {
+        throw new Error(
+            `${moduleClass.name} declara controllers e só pode ter uma instância: importe o mesmo módulo dinâmico em todos os módulos`
+        );
+    }
+}
+
+/**
+ * Obtém o nome de um módulo importado para mensagens de erro
+ * @private
+ */
+function getImportName(definition: ModuleImport): string {
+    return typeof definition === "function"
+        ? definition.name
+        : `${definition.module.name} (dinâmico)`;
+}
+
+/**
+ * Registra um provedor no container do módulo, ignorando classes com condições
+ * não atendidas
+ * @private
+ */
+function registerProvider(ref: ModuleRef, provider: ModuleProvider): void {
+    if (typeof provider === "function" && !isConditionMet(ref, provider)) {
+        return;
+    }
+
+    for (const [token, definition] of registerDeclaredProvider(
+        ref.container,
+        provider
+    )) {
+        ref.providers.set(token, definition);
+    }
+}
+
+/**
+ * Registra um controlador no container do módulo
+ * @private
+ */
+function registerController(ref: ModuleRef, controller: Constructor): void {
+    if (!isConditionMet(ref, controller)) return;
+
+    // Controllers são sempre singleton por padrão
+    const scope: LifeCycleOpt =
+        Reflect.getMetadata("service:scope", controller) ?? "singleton";
+    const definition: Provider = { useClass: controller, scope };
+    ref.container.register(controller, definition);
+    ref.providers.set(controller, definition);
+}
+
+/**
+ * Resolve os exports do módulo: provedores próprios, tokens importados e
+ * módulos importados (reexportados por inteiro)
+ * @private
+ */
+function collectExports(ref: ModuleRef, metadata: ModuleMetadata): void {
+    for (const token of metadata.exports ?? []) {
+        if (ref.providers.has(token)) {
+            ref.exports.set(token, ref.container);
+            continue;
+        }
+
+        // Módulos importados (estáticos ou dinâmicos) são reexportados por inteiro
+        const modules = ref.imports.filter((module) => module.type === token);
+        if (modules.length) {
+            for (const [exported, source] of modules.flatMap((module) =>
+                Array.from(module.exports)
+            )) {
+                ref.exports.set(exported, source);
+            }
+            continue;
+        }
+        if (isModule(token)) {
+            throw new Error(
+                `${ref.name} exporta o módulo ${token.name}, mas não o importa`
+            );
+        }
+
+        const source = ref.imports.find((module) => module.exports.has(token));
+        if (source) {
+            ref.exports.set(token, source.exports.get(token)!);
+            continue;
+        }
+
+        // Provedores ignorados por condições não atendidas também não são exportados
+        const skipped = metadata.providers?.includes(token as Constructor);
+        if (!skipped) {
+            throw new Error(
+                `${ref.name} exporta ${describeToken(
+                    token
+                )}, que não é provedor do módulo nem export de um módulo importado`
+            );
+        }
+    }
+}
+
+/**
+ * Verifica as condições de registro de um componente do módulo, registrando no
+ * log os componentes ignorados
+ * @private
+ */
+function isConditionMet(ref: ModuleRef, target: Constructor): boolean {
+    const unmet = ref.container.getUnmetConditions(target);
+    if (!unmet.length) return true;
+
+    console.log(
+        `[INFO] [SCANNER] Ignorando ${target.name} no módulo ${ref.name}: ${unmet
+            .map((condition) => condition.description)
+            .join(", ")} não atendida`
+    );
+    return false;
+}
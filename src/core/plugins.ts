@@ -0,0 +1,64 @@
+import type { InfusePlugin, PluginContext } from "../types";
+
+/** Hooks de plugin que interrompem o bootstrap quando falham */
+type PluginPhase = Exclude<keyof InfusePlugin, "name" | "onShutdown">;
+
+/**
+ * Executa um hook dos plugins, em ordem, aguardando cada um
+ * @param plugins - Plugins da aplicação
+ * @param phase - Hook a ser executado
+ * @param args - Argumentos do hook
+ * @throws Error identificando o plugin e o hook quando um deles falha
+ *
+ * @example
+ * ```typescript
+ * await invokePlugins(plugins, 'beforeScan', context);
+ * await invokePlugins(plugins, 'onRouteRegistered', route, context);
+ * ```
+ */
+export async function invokePlugins<K extends PluginPhase>(
+    plugins: readonly InfusePlugin[],
+    phase: K,
+    ...args: Parameters<NonNullable<InfusePlugin[K]>>
+): Promise<void> {
+    for (const plugin of plugins) {
+        const hook = plugin[phase] as
+            ((...args: unknown[]) => void | Promise<void>) | undefined;
+        if (!hook) continue;
+
+        try {
+            await hook.apply(plugin, args);
+        } catch (error) {
+            throw new Error(`Plugin ${plugin.name} falhou em ${phase}`, {
+                cause: error,
+            });
+        }
+    }
+}
+
+/**
+ * Executa o hook onShutdown dos plugins, na ordem inversa do registro
+ * Erros são registrados e não interrompem os demais plugins
+ * @param plugins - Plugins da aplicação
+ * @param context - Recursos da aplicação
+ *
+ * @example
+ * ```typescript
+ * addShutdownHook(() => shutdownPlugins(plugins, context));
+ * ```
+ */
+export async function shutdownPlugins(
+    plugins: readonly InfusePlugin[],
+    context: PluginContext
+): Promise<void> {
+    for (const plugin of [...plugins].reverse()) {
+        try {
+            await plugin.onShutdown?.(context);
+        } catch (error) {
+            console.error(
+                `[ERROR] [PLUGIN] onShutdown do plugin ${plugin.name} falhou:`,
+                error
+            );
+        }
+    }
+}
@@ -0,0 +1,113 @@
+import type {
+    Constructor,
+    LifeCycleOpt,
+    ModuleProvider,
+    Provider,
+    TestProvider,
+    Token,
+} from "../types";
+import type { Container } from "./container";
+import { metadataRegistry } from "./metadata-registry";
+import { qualify } from "./qualified-token";
+import { getBeanDefinitions } from "../decorators/configuration";
+import { getProcessorScope } from "../decorators/processor";
+import { getQualifier } from "../decorators/qualifier";
+import { getServiceBinding, getServiceScope } from "../decorators/service";
+
+/**
+ * Obtém o escopo declarado no decorator de um componente
+ * (@Processor ou @Service; singleton por padrão)
+ * @param target - Classe do componente
+ * @returns Escopo do ciclo de vida
+ */
+export function getComponentScope(target: Constructor): LifeCycleOpt {
+    return metadataRegistry.processors.has(target)
+        ? getProcessorScope(target)
+        : getServiceScope(target);
+}
+
+/**
+ * Registra um provedor declarado em uma lista de providers (@Module ou módulo de testes)
+ * Objetos são registrados como estão; classes @Configuration registram seus
+ * beans; as demais classes usam o escopo do decorator e @Service({ provide })
+ * registra também o token de abstração (e o qualificado, com @Named)
+ *
+ * @param container - Container que recebe o provedor
+ * @param provider - Classe ou objeto declarado
+ * @returns Provedores registrados, por token
+ *
+ * @example
+ * ```typescript
+ * registerDeclaredProvider(container, UserService);
+ * registerDeclaredProvider(container, { provide: CONFIG, useValue: config });
+ * ```
+ */
+export function registerDeclaredProvider(
+    container: Container,
+    provider: ModuleProvider | TestProvider
+): Map<Token, Provider> {
+    const registered = new Map<Token, Provider>();
+    const add = (token: Token, definition: Provider) => {
+        container.register(token, definition);
+        registered.set(token, definition);
+    };
+
+    if (typeof provider !== "function") {
+        const { provide, ...definition } = provider;
+        add(provide, definition);
+        return registered;
+    }
+
+    if (metadataRegistry.configurations.has(provider)) {
+        return registerConfiguration(container, provider);
+    }
+
+    add(provider, { useClass: provider, scope: getComponentScope(provider) });
+
+    const binding = getServiceBinding(provider);
+    if (binding) {
+        const alias: Provider = {
+            useExisting: provider,
+            multi: binding.multi,
+        };
+        add(binding.provide, alias);
+
+        const qualifier = getQualifier(provider);
+        if (qualifier !== undefined) {
+            add(qualify(binding.provide, qualifier), alias);
+        }
+    }
+    return registered;
+}
+
+/**
+ * Registra uma classe @Configuration como singleton do container (com injeção
+ * de dependências e ciclo de vida) e cada @Bean como uma factory sobre essa
+ * instância, avaliada apenas quando o bean é resolvido
+ *
+ * @param container - Container que recebe a configuração
+ * @param configuration - Classe marcada com @Configuration
+ * @returns Provedores registrados (a configuração e seus beans), por token
+ */
+export function registerConfiguration(
+    container: Container,
+    configuration: Constructor
+): Map<Token, Provider> {
+    const registered = new Map<Token, Provider>();
+    const definition: Provider = {
+        useClass: configuration,
+        scope: "singleton",
+    };
+    container.register(configuration, definition);
+    registered.set(configuration, definition);
+
+    for (const bean of getBeanDefinitions(configuration)) {
+        const factory: Provider = {
+            useFactory: (instance: any) => instance[bean.methodName](),
+            inject: [configuration],
+        };
+        container.register(bean.token, factory);
+        registered.set(bean.token, factory);
+    }
+    return registered;
+}
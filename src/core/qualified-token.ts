@@ -0,0 +1,68 @@
+import type { Token } from "../types";
+import { InjectionToken } from "./injection-token";
+
+/** Tokens qualificados já criados, indexados por token e qualificador */
+const qualifiedTokens = new Map<Token, Map<string, QualifiedToken>>();
+
+/**
+ * Token que identifica uma implementação específica de outro token,
+ * selecionada por um qualificador declarado com @Named
+ * Instâncias são únicas por par (token, qualificador) e devem ser obtidas com qualify()
+ *
+ * @template T - Tipo da instância associada ao token
+ */
+export class QualifiedToken<T = unknown> extends InjectionToken<T> {
+    /**
+     * @param token - Token qualificado
+     * @param qualifier - Nome da implementação
+     */
+    constructor(
+        readonly token: Token<T>,
+        readonly qualifier: string
+    ) {
+        super(
+            `${
+                typeof token === "function" ? token.name : String(token)
+            }@Named('${qualifier}')`
+        );
+    }
+
+    /**
+     * Representação textual do token para logs e mensagens de erro
+     * @returns String no formato `Token@Named('qualificador')`
+     */
+    override toString(): string {
+        return this.description;
+    }
+}
+
+/**
+ * Obtém o token que identifica a implementação de `token` declarada com
+ * @Named(qualifier). Sem qualificador, o próprio token é retornado
+ *
+ * @param token - Token da abstração (ou classe)
+ * @param qualifier - Nome da implementação
+ * @returns Token qualificado, usado em register(), resolve() e has()
+ *
+ * @example
+ * ```typescript
+ * container.register(qualify(Storage, 's3'), { useClass: S3Storage });
+ * const storage = container.resolve(qualify(Storage, 's3'));
+ * ```
+ */
+export function qualify<T>(token: Token<T>, qualifier?: string): Token<T> {
+    if (qualifier === undefined) return token;
+
+    let byQualifier = qualifiedTokens.get(token);
+    if (!byQualifier) {
+        byQualifier = new Map();
+        qualifiedTokens.set(token, byQualifier);
+    }
+
+    let qualified = byQualifier.get(qualifier);
+    if (!qualified) {
+        qualified = new QualifiedToken(token, qualifier);
+        byQualifier.set(qualifier, qualified);
+    }
+    return qualified as QualifiedToken<T>;
+}
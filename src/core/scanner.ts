@@ -2,11 +2,26 @@
 
 import { metadataRegistry } from "./metadata-registry";
 import { GlobalContainer } from "./container";
+import { formatValidationReport } from "./validation";
 import { getBeanDefinitions } from "../decorators/configuration";
-import { getServiceScope } from "../decorators/service";
+import { getServiceBinding, getServiceScope } from "../decorators/service";
 import { getProcessorScope } from "../decorators/processor";
+import {
+    hasDeferredConditions,
+    orderByConditions,
+} from "../decorators/conditional";
+import { getQualifier, selectPrimary } from "../decorators/qualifier";
+import { qualify } from "./qualified-token";
 import { applyLifecycle } from "./life-cycle";
-import type { LifeCycleOpt } from "../types";
+import { registerCacheProviders } from "./cache";
+import { buildModules, type ModuleRef } from "./modules";
+import type {
+    Constructor,
+    LifeCycleOpt,
+    ModuleImport,
+    ScanOptions,
+    ServiceBinding,
+} from "../types";
 
 /**
  * Função principal que escaneia e registra todos os componentes da aplicação
@@ -18,18 +33,49 @@ import type { LifeCycleOpt } from "../types";
  * 4. Controllers - controladores HTTP
  * 5. Application - classe principal da aplicação
  * 6. Resolução de dependências pendentes
+ * 7. Validação do container (apenas no modo strict)
+ * 8. Conclusão dos hooks onInit assíncronos, em ordem de dependência
+ *
+ * Componentes com condições não atendidas (@Profile, @ConditionalOnEnv...)
+ * são ignorados; os que possuem condições adiadas (@ConditionalOnMissingProvider)
+ * são avaliados depois dos demais componentes do mesmo tipo
+ *
+ * Antes dos componentes, o CacheInterceptor e o LruCacheStore são registrados
+ * (ver registerCacheProviders()); um CACHE_STORE da aplicação substitui o padrão
+ *
+ * @param options - Opções do escaneamento
+ * @throws Error no modo strict, quando a validação encontra problemas
+ * @throws AggregateError quando o onInit de componentes obrigatórios falha ou excede o tempo limite
  *
  * @example
  * ```typescript
  * await scanAndRegister();
  * console.log('Todos os componentes foram registrados');
+ *
+ * // Falha no boot se houver dependências ausentes, ciclos ou violações de escopo
+ * await scanAndRegister({ strict: true });
+ *
+ * // Registra apenas os componentes dos perfis informados
+ * await scanAndRegister({ profiles: ['dev'] });
  * ```
  */
-export async function scanAndRegister(): Promise<void> {
+export async function scanAndRegister(
+    options: ScanOptions = {}
+): Promise<void> {
     console.log(
         "[INFO] [SCANNER] Iniciando escaneamento e registro de componentes..."
     );
 
+    if (options.profiles) {
+        GlobalContainer.setActiveProfiles(options.profiles);
+    }
+    if (options.initTimeout !== undefined) {
+        GlobalContainer.setInitTimeout(options.initTimeout);
+    }
+
+    // Componentes de cache, antes dos serviços que os interceptadores envolvem
+    registerCacheProviders(GlobalContainer);
+
     // 1. Configurations - processar primeiro pois podem fornecer beans
     await registerConfigurations();
 
@@ -48,9 +94,137 @@ export async function scanAndRegister(): Promise<void> {
     // 6. Tentar resolver dependências que ficaram pendentes
     await GlobalContainer.resolvePendingDependencies();
 
+    // 7. Validar o container
+    if (options.strict) {
+        const report = GlobalContainer.validate();
+        if (!report.valid) {
+            throw new Error(formatValidationReport(report));
+        }
+        console.log("[INFO] [SCANNER] Container validado com sucesso");
+    }
+
+    // 8. Aguardar a inicialização assíncrona dos componentes
+    console.log("[INFO] [SCANNER] Aguardando inicialização dos componentes...");
+    await GlobalContainer.whenInitialized();
+
     console.log("[INFO] [SCANNER] Escaneamento e registro concluído");
 }
 
+/**
+ * Inicializa a aplicação a partir de um módulo raiz, em vez de registrar todos
+ * os componentes carregados
+ *
+ * Processa os módulos na seguinte ordem:
+ * 1. Construção dos módulos: um container filho do GlobalContainer por módulo,
+ *    com os exports dos módulos importados
+ * 2. Instanciação dos singletons de cada módulo, dos importados para o raiz
+ * 3. Application - classe principal da aplicação
+ * 4. Resolução de dependências pendentes
+ * 5. Validação dos containers (apenas no modo strict)
+ * 6. Conclusão dos hooks onInit assíncronos, em ordem de dependência
+ *
+ * Os exports do módulo raiz e dos módulos globais ficam disponíveis no
+ * GlobalContainer; os demais provedores são privados de seus módulos. O
+ * CacheInterceptor e o CACHE_STORE padrão são registrados no GlobalContainer
+ * depois da construção dos módulos, se nenhum deles exportar um CACHE_STORE
+ *
+ * @param rootModule - Classe decorada com @Module ou módulo dinâmico
+ * @param options - Opções do escaneamento
+ * @returns Módulo raiz construído
+ * @throws Error em importações circulares entre módulos, exports inválidos e,
+ * no modo strict, quando a validação encontra problemas
+ * @throws AggregateError quando o onInit de componentes obrigatórios falha ou excede o tempo limite
+ *
+ * @example
+ * ```typescript
+ * @Module({ imports: [UsersModule, BillingModule], controllers: [HealthController] })
+ * class AppModule {}
+ *
+ * const app = await scanModule(AppModule, { strict: true });
+ * ```
+ */
+export async function scanModule(
+    rootModule: ModuleImport,
+    options: ScanOptions = {}
+): Promise<ModuleRef> {
+    const rootName =
+        typeof rootModule === "function"
+            ? rootModule.name
+            : rootModule.module?.name;
+    console.log(
+        `[INFO] [SCANNER] Iniciando construção dos módulos a partir de ${rootName}...`
+    );
+
+    if (options.profiles) {
+        GlobalContainer.setActiveProfiles(options.profiles);
+    }
+    if (options.initTimeout !== undefined) {
+        GlobalContainer.setInitTimeout(options.initTimeout);
+    }
+
+    // 1. Módulos, em ordem de dependência
+    const modules = buildModules(rootModule, GlobalContainer);
+    registerCacheProviders(GlobalContainer);
+
+    // 2. Singletons de cada módulo
+    for (const module of modules) {
+        await instantiateModule(module);
+    }
+
+    // 3. Application
+    await registerApplication();
+
+    // 4. Tentar resolver dependências que ficaram pendentes
+    await GlobalContainer.resolvePendingDependencies();
+
+    // 5. Validar os containers dos módulos
+    if (options.strict) {
+        for (const module of modules) {
+            const report = module.container.validate();
+            if (!report.valid) {
+                throw new Error(
+                    `Módulo ${module.name}:\n${formatValidationReport(report)}`
+                );
+            }
+        }
+        console.log("[INFO] [SCANNER] Módulos validados com sucesso");
+    }
+
+    // 6. Aguardar a inicialização assíncrona dos componentes
+    console.log("[INFO] [SCANNER] Aguardando inicialização dos componentes...");
+    for (const module of modules) {
+        await module.container.whenInitialized();
+    }
+    await GlobalContainer.whenInitialized();
+
+    console.log("[INFO] [SCANNER] Construção dos módulos concluída");
+    return modules.at(-1)!;
+}
+
+/**
+ * Instancia os singletons declarados por um módulo (o container aplica o ciclo de vida)
+ *
+ * @private
+ */
+async function instantiateModule(module: ModuleRef): Promise<void> {
+    for (const [token, provider] of module.providers) {
+        if (provider.multi || (provider.scope ?? "singleton") !== "singleton") {
+            continue;
+        }
+
+        try {
+            await module.container.resolveAsync(token);
+        } catch (error) {
+            console.error(
+                `[ERROR] [SCANNER] Erro ao instanciar ${
+                    typeof token === "function" ? token.name : String(token)
+                } no módulo ${module.name}:`,
+                error
+            );
+        }
+    }
+}
+
 /**
  * Registra todas as classes de configuração e seus beans
  * Classes marcadas com @Configuration são processadas primeiro
@@ -67,7 +241,9 @@ async function registerConfigurations(): Promise<void> {
         `[INFO] [SCANNER] Registrando ${metadataRegistry.configurations.size} ${sufix}...`
     );
 
-    for (const configClass of metadataRegistry.configurations) {
+    for (const configClass of orderByConditions(metadataRegistry.configurations)) {
+        if (!isConditionMet(configClass, "configuração")) continue;
+
         try {
             const configInstance = new configClass();
             applyLifecycle(configInstance, "singleton");
@@ -100,7 +276,9 @@ async function registerServices(): Promise<void> {
         `[INFO] [SCANNER] Registrando ${metadataRegistry.services.size} ${sufixServices}...`
     );
 
-    for (const serviceClass of metadataRegistry.services) {
+    for (const serviceClass of orderByConditions(metadataRegistry.services)) {
+        if (!isConditionMet(serviceClass, "serviço")) continue;
+
         try {
             const scope = getServiceScope(serviceClass);
 
@@ -109,10 +287,15 @@ async function registerServices(): Promise<void> {
                 scope,
             });
 
-            // Se for singleton, aplicar lifecycle imediatamente
+            // Registrar o serviço também sob o token de abstração declarado
+            const binding = getServiceBinding(serviceClass);
+            if (binding) {
+                registerBinding(serviceClass, binding);
+            }
+
+            // Singletons são instanciados imediatamente (o container aplica o ciclo de vida)
             if (scope === "singleton") {
-                const instance = GlobalContainer.resolve(serviceClass);
-                applyLifecycle(instance, scope);
+                GlobalContainer.resolve(serviceClass);
             }
         } catch (error) {
             console.error(
@@ -123,6 +306,60 @@ async function registerServices(): Promise<void> {
     }
 }
 
+/**
+ * Registra um serviço sob o token de abstração declarado em @Service({ provide })
+ * Com @Named, o serviço também é registrado sob o token qualificado. Quando várias
+ * implementações simples disputam o token, apenas a marcada com @Primary é
+ * registrada; sem ela, o token fica sem provedor e a resolução aponta a ambiguidade
+ *
+ * @private
+ */
+function registerBinding(
+    serviceClass: Constructor,
+    binding: ServiceBinding
+): void {
+    const qualifier = getQualifier(serviceClass);
+    if (qualifier !== undefined) {
+        GlobalContainer.register(qualify(binding.provide, qualifier), {
+            useExisting: serviceClass,
+            multi: binding.multi,
+        });
+    }
+
+    if (!binding.multi) {
+        // Implementações com condições adiadas só disputam o token entre si
+        const deferred = hasDeferredConditions(serviceClass);
+        const candidates = Array.from(metadataRegistry.services).filter(
+            (candidate) => {
+                const candidateBinding = getServiceBinding(candidate);
+                return (
+                    candidateBinding?.provide === binding.provide &&
+                    !candidateBinding.multi &&
+                    (deferred || !hasDeferredConditions(candidate)) &&
+                    !GlobalContainer.getUnmetConditions(candidate).length
+                );
+            }
+        );
+
+        const selected = selectPrimary(candidates);
+        if (selected !== serviceClass) {
+            if (!selected) {
+                console.warn(
+                    `[WARN] [SCANNER] ${serviceClass.name} não foi registrado sob o token de abstração: múltiplas implementações sem @Primary (${candidates
+                        .map((candidate) => candidate.name)
+                        .join(", ")})`
+                );
+            }
+            return;
+        }
+    }
+
+    GlobalContainer.register(binding.provide, {
+        useExisting: serviceClass,
+        multi: binding.multi,
+    });
+}
+
 /**
  * Registra todos os processadores no container de DI
  * Processadores são componentes especiais marcados com @Processor
@@ -137,7 +374,9 @@ async function registerProcessors(): Promise<void> {
         `[INFO] [SCANNER] Registrando ${metadataRegistry.processors.size} ${sufixProcessors}...`
     );
 
-    for (const processorClass of metadataRegistry.processors) {
+    for (const processorClass of orderByConditions(metadataRegistry.processors)) {
+        if (!isConditionMet(processorClass, "processador")) continue;
+
         try {
             const scope = getProcessorScope(processorClass);
 
@@ -146,10 +385,9 @@ async function registerProcessors(): Promise<void> {
                 scope,
             });
 
-            // Se for singleton, aplicar lifecycle imediatamente
+            // Singletons são instanciados imediatamente (o container aplica o ciclo de vida)
             if (scope === "singleton") {
-                const instance = GlobalContainer.resolve(processorClass);
-                applyLifecycle(instance, scope);
+                GlobalContainer.resolve(processorClass);
             }
         } catch (error) {
             console.error(
@@ -174,7 +412,9 @@ async function registerControllers(): Promise<void> {
         `[INFO] [SCANNER] Registrando ${metadataRegistry.controllers.size} ${sufixControllers}...`
     );
 
-    for (const controllerClass of metadataRegistry.controllers) {
+    for (const controllerClass of orderByConditions(metadataRegistry.controllers)) {
+        if (!isConditionMet(controllerClass, "controlador")) continue;
+
         try {
             // Controllers são sempre singleton por padrão
             const scope: LifeCycleOpt =
@@ -186,10 +426,9 @@ async function registerControllers(): Promise<void> {
                 scope,
             });
 
-            // Se for singleton, aplicar lifecycle imediatamente
+            // Singletons são instanciados imediatamente (o container aplica o ciclo de vida)
             if (scope === "singleton") {
-                const instance = GlobalContainer.resolve(controllerClass);
-                applyLifecycle(instance, scope);
+                GlobalContainer.resolve(controllerClass);
             }
         } catch (error) {
             console.error(
@@ -218,8 +457,7 @@ async function registerApplication(): Promise<void> {
                 scope: "singleton",
             });
 
-            const appInstance = GlobalContainer.resolve(AppClass);
-            applyLifecycle(appInstance, "singleton");
+            GlobalContainer.resolve(AppClass);
         } catch (error) {
             console.error(
                 `❌ Erro ao registrar aplicação ${AppClass.name}:`,
@@ -228,3 +466,21 @@ async function registerApplication(): Promise<void> {
         }
     }
 }
+
+/**
+ * Verifica as condições de registro de um componente, registrando no log
+ * os componentes ignorados
+ *
+ * @private
+ */
+function isConditionMet(target: Function, kind: string): boolean {
+    const unmet = GlobalContainer.getUnmetConditions(target);
+    if (!unmet.length) return true;
+
+    console.log(
+        `[INFO] [SCANNER] Ignorando ${kind} ${target.name}: ${unmet
+            .map((condition) => condition.description)
+            .join(", ")} não atendida`
+    );
+    return false;
+}
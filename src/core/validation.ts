@@ -0,0 +1,234 @@
+import type {
+    DependencyCycle,
+    DependencyGraph,
+    DependencyGraphNode,
+    ScopeViolation,
+    UnresolvableDependency,
+    ValidationReport,
+} from "../types";
+
+/**
+ * Encontra as dependências obrigatórias que apontam para nós sem provedor
+ * Dependências multi são ignoradas, pois sem provedores injetam um array vazio
+ * @private
+ */
+function findUnresolvable(
+    graph: DependencyGraph,
+    nodes: Map<string, DependencyGraphNode>
+): UnresolvableDependency[] {
+    return graph.edges
+        .filter(
+            (edge) =>
+                !edge.optional &&
+                !edge.multi &&
+                nodes.get(edge.to)!.kind === "missing"
+        )
+        .map((edge) => {
+            const target = nodes.get(edge.to)!;
+            return {
+                token: edge.from,
+                dependency: target.name,
+                propertyKey: edge.propertyKey,
+                reason:
+                    target.token === undefined || target.token === Object
+                        ? "unknown-type"
+                        : "missing",
+            };
+        });
+}
+
+/**
+ * Encontra os ciclos do grafo, desconsiderando arestas lazy (que interrompem o ciclo)
+ * Cada aresta de retorno da busca em profundidade gera um ciclo; ciclos repetidos
+ * (a mesma sequência iniciando em outro nó) são descartados
+ * @private
+ */
+function findCycles(graph: DependencyGraph): DependencyCycle[] {
+    const adjacency = new Map<string, string[]>();
+    for (const edge of graph.edges) {
+        if (edge.lazy) continue;
+        adjacency.set(edge.from, [
+            ...(adjacency.get(edge.from) ?? []),
+            edge.to,
+        ]);
+    }
+
+    const cycles: DependencyCycle[] = [];
+    const seen = new Set<string>();
+    const state = new Map<string, "visiting" | "done">();
+    const stack: string[] = [];
+
+    const visit = (id: string): void => {
+        state.set(id, "visiting");
+        stack.push(id);
+
+        for (const next of adjacency.get(id) ?? []) {
+            if (state.get(next) === "visiting") {
+                const cycle = stack.slice(stack.indexOf(next));
+                // Normaliza a rotação para descartar ciclos repetidos
+                const start = cycle.indexOf([...cycle].sort()[0]!);
+                const key = [
+                    ...cycle.slice(start),
+                    ...cycle.slice(0, start),
+                ].join("\u0000");
+                if (!seen.has(key)) {
+                    seen.add(key);
+                    cycles.push({ path: [...cycle, next] });
+                }
+            } else if (!state.has(next)) {
+                visit(next);
+            }
+        }
+
+        stack.pop();
+        state.set(id, "done");
+    };
+
+    for (const node of graph.nodes) {
+        if (!state.has(node.id)) visit(node.id);
+    }
+    return cycles;
+}
+
+/**
+ * Encontra dependências request-scoped capturadas por singletons, diretamente
+ * ou através de dependências transient e aliases
+ * @private
+ */
+function findScopeViolations(
+    graph: DependencyGraph,
+    nodes: Map<string, DependencyGraphNode>
+): ScopeViolation[] {
+    const adjacency = new Map<string, string[]>();
+    for (const edge of graph.edges) {
+        adjacency.set(edge.from, [
+            ...(adjacency.get(edge.from) ?? []),
+            edge.to,
+        ]);
+    }
+
+    const violations: ScopeViolation[] = [];
+    for (const node of graph.nodes) {
+        if (node.scope !== "singleton" || node.kind === "alias") continue;
+
+        const visited = new Set<string>([node.id]);
+        const walk = (id: string, path: string[]): void => {
+            for (const next of adjacency.get(id) ?? []) {
+                if (visited.has(next)) continue;
+                visited.add(next);
+
+                const target = nodes.get(next)!;
+                const targetPath = [...path, next];
+                if (target.scope === "request") {
+                    violations.push({
+                        token: node.id,
+                        scope: node.scope!,
+                        dependency: next,
+                        dependencyScope: target.scope,
+                        path: targetPath,
+                    });
+                } else if (
+                    target.kind === "alias" ||
+                    target.scope === "transient"
+                ) {
+                    // Aliases e transients criados pelo singleton também são capturados
+                    walk(next, targetPath);
+                }
+            }
+        };
+        walk(node.id, [node.id]);
+    }
+    return violations;
+}
+
+/**
+ * Valida um grafo de dependências, reportando dependências sem provedor,
+ * ciclos e violações de escopo
+ *
+ * @param graph - Grafo obtido com container.getDependencyGraph()
+ * @returns Relatório de validação
+ *
+ * @example
+ * ```typescript
+ * const report = validateDependencyGraph(container.getDependencyGraph());
+ * console.log(report.cycles.map((cycle) => cycle.path.join(' -> ')));
+ * ```
+ */
+export function validateDependencyGraph(
+    graph: DependencyGraph
+): ValidationReport {
+    const nodes = new Map(graph.nodes.map((node) => [node.id, node]));
+    const unresolvable = findUnresolvable(graph, nodes);
+    const cycles = findCycles(graph);
+    const scopeViolations = findScopeViolations(graph, nodes);
+
+    return {
+        valid:
+            !unresolvable.length && !cycles.length && !scopeViolations.length,
+        unresolvable,
+        cycles,
+        scopeViolations,
+    };
+}
+
+/**
+ * Formata um relatório de validação em texto legível
+ *
+ * @param report - Relatório obtido com container.validate()
+ * @returns Descrição dos problemas encontrados
+ *
+ * @example
+ * ```typescript
+ * const report = GlobalContainer.validate();
+ * if (!report.valid) console.warn(formatValidationReport(report));
+ * ```
+ */
+export function formatValidationReport(report: ValidationReport): string {
+    if (report.valid) return "Container válido: nenhum problema encontrado";
+
+    const lines = ["Validação do container falhou:"];
+
+    if (report.unresolvable.length) {
+        lines.push(
+            `- Dependências não resolvidas (${report.unresolvable.length}):`
+        );
+        for (const issue of report.unresolvable) {
+            const owner =
+                issue.propertyKey !== undefined
+                    ? `${issue.token}.${String(issue.propertyKey)}`
+                    : issue.token;
+            lines.push(
+                `  • ${owner} -> ${issue.dependency} ${
+                    issue.reason === "unknown-type"
+                        ? "(interface/tipo sem token - use @Inject(token))"
+                        : "(não registrada)"
+                }`
+            );
+        }
+    }
+
+    if (report.cycles.length) {
+        lines.push(`- Dependências circulares (${report.cycles.length}):`);
+        for (const cycle of report.cycles) {
+            lines.push(`  • ${cycle.path.join(" -> ")}`);
+        }
+        lines.push(
+            `  Dica: use @Autowired({ lazy: true }) ou @Inject(token, { lazy: true }) para interromper o ciclo`
+        );
+    }
+
+    if (report.scopeViolations.length) {
+        lines.push(`- Violações de escopo (${report.scopeViolations.length}):`);
+        for (const violation of report.scopeViolations) {
+            lines.push(
+                `  • ${violation.token} [${violation.scope}] captura ${
+                    violation.dependency
+                } [${violation.dependencyScope}] (${violation.path.join(
+                    " -> "
+                )})`
+            );
+        }
+    }
+
+    return lines.join("\n");
+}
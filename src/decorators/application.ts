@@ -13,6 +13,11 @@ const APPLICATION_META = "application:options";
  * @param options - Configurações da aplicação
  * @param options.port - Porta do servidor (padrão: 3000)
  * @param options.adapter - Tipo do adapter HTTP ("express" ou "fastify")
+ * @param options.strict - Valida o container no bootstrap e aborta se houver problemas
+ * @param options.profiles - Perfis ativos, usados por @Profile
+ * @param options.initTimeout - Tempo máximo, em ms, para cada onInit assíncrono
+ * @param options.module - Módulo raiz; sem ele, o bootstrap escaneia o diretório da aplicação
+ * @param options.plugins - Plugins executados nas fases do bootstrap
  * @returns Decorator de classe
  * 
  * @example
@@ -50,6 +55,11 @@ export function Application(options: ApplicationOptions = {}): ClassDecorator {
             {
                 port: options.port ?? 3000,
                 adapter: options.adapter ?? "fastify",
+                strict: options.strict ?? false,
+                profiles: options.profiles,
+                initTimeout: options.initTimeout,
+                module: options.module,
+                plugins: options.plugins ?? [],
             },
             target
         );
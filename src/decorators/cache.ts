@@ -0,0 +1,115 @@
+import type { CacheableOptions, CacheEvictOptions } from "../types";
+import { CacheInterceptor } from "../core/cache";
+import { Around, getMethodInterceptors } from "./interceptor";
+
+/** Chave para as opções de @Cacheable */
+const CACHEABLE_META = "cache:cacheable";
+
+/** Chave para as opções de @CacheEvict */
+const CACHE_EVICT_META = "cache:evict";
+
+/**
+ * Vincula o CacheInterceptor ao método uma única vez, mesmo quando
+ * @Cacheable e @CacheEvict são usados juntos, e registra os componentes de cache
+ * @private
+ */
+function bindCacheInterceptor(
+    decorator: string,
+    target: Object,
+    propertyKey: string | symbol,
+    descriptor: PropertyDescriptor
+): void {
+    if (typeof target === "function") {
+        throw new Error(
+            `${decorator} não pode ser usado em métodos estáticos (${target.name}.${String(
+                propertyKey
+            )})`
+        );
+    }
+
+    const bound = getMethodInterceptors(target, propertyKey).some(
+        (binding) => binding.interceptor === CacheInterceptor
+    );
+    if (!bound) Around(CacheInterceptor)(target, propertyKey, descriptor);
+}
+
+/**
+ * Decorator de método que armazena o retorno em cache, indexado pelos argumentos
+ * Chamadas seguintes com a mesma chave retornam o valor armazenado sem executar
+ * o método. Em métodos assíncronos, o valor resolvido é armazenado (rejeições não)
+ *
+ * @param options - Nome do cache, geração da chave, ttl e escopo
+ * @returns Decorator de método
+ *
+ * @example
+ * ```typescript
+ * @Service()
+ * class UserService {
+ *   @Cacheable({ name: 'users', key: (id: number) => id, ttl: 60_000 })
+ *   async findById(id: number) {
+ *     return this.repository.findById(id);
+ *   }
+ *
+ *   @Cacheable({ scope: 'request' }) // um cache por requisição
+ *   currentPermissions() {}
+ * }
+ * ```
+ */
+export function Cacheable(options: CacheableOptions = {}): MethodDecorator {
+    return (target, propertyKey, descriptor) => {
+        bindCacheInterceptor("@Cacheable", target, propertyKey, descriptor);
+        Reflect.defineMetadata(CACHEABLE_META, options, target, propertyKey);
+    };
+}
+
+/**
+ * Decorator de método que invalida entradas de um cache após a chamada
+ * (ou antes dela, com `beforeInvocation`)
+ *
+ * @param options - Nome do cache e chave (ou todas as entradas) a invalidar
+ * @returns Decorator de método
+ *
+ * @example
+ * ```typescript
+ * @Service()
+ * class UserService {
+ *   @CacheEvict({ name: 'users', key: (user: User) => user.id })
+ *   update(user: User) {}
+ *
+ *   @CacheEvict({ name: 'users', allEntries: true })
+ *   importAll() {}
+ * }
+ * ```
+ */
+export function CacheEvict(options: CacheEvictOptions): MethodDecorator {
+    return (target, propertyKey, descriptor) => {
+        bindCacheInterceptor("@CacheEvict", target, propertyKey, descriptor);
+        Reflect.defineMetadata(CACHE_EVICT_META, options, target, propertyKey);
+    };
+}
+
+/**
+ * Obtém as opções de @Cacheable de um método
+ * @param prototype - Prototype da classe
+ * @param methodName - Nome do método
+ * @returns Opções ou undefined se o método não é cacheado
+ */
+export function getCacheableOptions(
+    prototype: Object,
+    methodName: string | symbol
+): CacheableOptions | undefined {
+    return Reflect.getMetadata(CACHEABLE_META, prototype, methodName);
+}
+
+/**
+ * Obtém as opções de @CacheEvict de um método
+ * @param prototype - Prototype da classe
+ * @param methodName - Nome do método
+ * @returns Opções ou undefined se o método não invalida caches
+ */
+export function getCacheEvictOptions(
+    prototype: Object,
+    methodName: string | symbol
+): CacheEvictOptions | undefined {
+    return Reflect.getMetadata(CACHE_EVICT_META, prototype, methodName);
+}
@@ -0,0 +1,227 @@
+import type { ComponentCondition, ConditionContext, Token } from "../types";
+import { InjectionToken } from "../core/injection-token";
+
+/** Chave para metadados das condições de registro */
+const CONDITIONS_META = "conditional:conditions";
+
+/**
+ * Obtém o nome de um token para descrições de condições
+ * @private
+ */
+function describeToken(token: Token): string {
+    if (typeof token === "function") return token.name;
+    if (token instanceof InjectionToken) return token.toString();
+    return String(token);
+}
+
+/**
+ * Decorator de classe que condiciona o registro do componente a uma condição
+ * customizada. Vários decorators condicionais podem ser combinados e todos
+ * precisam ser atendidos
+ *
+ * @param condition - Condição a ser avaliada
+ * @returns Decorator de classe
+ *
+ * @example
+ * ```typescript
+ * @Service()
+ * @Conditional({
+ *   description: 'somente em CI',
+ *   matches: ({ env }) => env.CI === 'true',
+ * })
+ * class CiReporter {}
+ * ```
+ */
+export function Conditional(condition: ComponentCondition): ClassDecorator {
+    return (target) => {
+        const conditions: ComponentCondition[] =
+            Reflect.getOwnMetadata(CONDITIONS_META, target) ?? [];
+        Reflect.defineMetadata(
+            CONDITIONS_META,
+            [...conditions, condition],
+            target
+        );
+    };
+}
+
+/**
+ * Registra o componente apenas quando algum dos perfis informados está ativo
+ * Perfis prefixados com `!` excluem o componente: todos precisam estar inativos
+ * (`@Profile('!dev', '!test')` exige que nem dev nem test estejam ativos)
+ *
+ * @param profiles - Perfis em que o componente é registrado
+ * @returns Decorator de classe
+ *
+ * @example
+ * ```typescript
+ * @Service({ provide: Mailer })
+ * @Profile('dev', 'test')
+ * class FakeMailer extends Mailer {}
+ *
+ * @Service({ provide: Mailer })
+ * @Profile('!dev', '!test')
+ * class SmtpMailer extends Mailer {}
+ * ```
+ */
+export function Profile(...profiles: string[]): ClassDecorator {
+    return Conditional({
+        description: `@Profile(${profiles.map((p) => `'${p}'`).join(", ")})`,
+        matches: ({ profiles: active }) => {
+            const excluded = profiles.filter((profile) =>
+                profile.startsWith("!")
+            );
+            const included = profiles.filter(
+                (profile) => !profile.startsWith("!")
+            );
+            return (
+                excluded.every(
+                    (profile) => !active.includes(profile.slice(1))
+                ) &&
+                (!included.length ||
+                    included.some((profile) => active.includes(profile)))
+            );
+        },
+    });
+}
+
+/**
+ * Registra o componente apenas quando uma variável de ambiente está definida
+ * (e não é vazia, "false" ou "0") ou possui o valor esperado
+ *
+ * @param name - Nome da variável de ambiente
+ * @param expected - Valor esperado (opcional)
+ * @returns Decorator de classe
+ *
+ * @example
+ * ```typescript
+ * @Service()
+ * @ConditionalOnEnv('FEATURE_X')
+ * class FeatureXService {}
+ *
+ * @Service()
+ * @ConditionalOnEnv('STORAGE', 's3')
+ * class S3Storage {}
+ * ```
+ */
+export function ConditionalOnEnv(
+    name: string,
+    expected?: string
+): ClassDecorator {
+    return Conditional({
+        description:
+            expected === undefined
+                ? `@ConditionalOnEnv('${name}')`
+                : `@ConditionalOnEnv('${name}', '${expected}')`,
+        matches: ({ env }) => {
+            const value = env[name];
+            if (expected !== undefined) return value === expected;
+            return (
+                value !== undefined &&
+                value !== "" &&
+                value !== "false" &&
+                value !== "0"
+            );
+        },
+    });
+}
+
+/**
+ * Registra o componente apenas quando nenhum provedor foi registrado para o token
+ * Avaliada depois dos componentes sem condições adiadas, permitindo
+ * implementações padrão que são substituídas quando outra é registrada
+ *
+ * @param token - Token verificado
+ * @returns Decorator de classe
+ *
+ * @example
+ * ```typescript
+ * @Service({ provide: CacheStore })
+ * @ConditionalOnMissingProvider(CacheStore)
+ * class InMemoryCacheStore extends CacheStore {}
+ * ```
+ */
+export function ConditionalOnMissingProvider(token: Token): ClassDecorator {
+    return Conditional({
+        description: `@ConditionalOnMissingProvider(${describeToken(token)})`,
+        deferred: true,
+        matches: (context) => !context.has(token),
+    });
+}
+
+/**
+ * Registra o componente apenas quando existe um provedor para o token
+ * Avaliada depois dos componentes sem condições adiadas
+ *
+ * @param token - Token verificado
+ * @returns Decorator de classe
+ *
+ * @example
+ * ```typescript
+ * @Service()
+ * @ConditionalOnProvider(DATABASE)
+ * class DatabaseHealthIndicator {}
+ * ```
+ */
+export function ConditionalOnProvider(token: Token): ClassDecorator {
+    return Conditional({
+        description: `@ConditionalOnProvider(${describeToken(token)})`,
+        deferred: true,
+        matches: (context) => context.has(token),
+    });
+}
+
+/**
+ * Obtém as condições de registro declaradas em uma classe
+ * @param target - Classe a ser inspecionada
+ * @returns Array de condições (vazio se não houver)
+ */
+export function getConditions(target: Function): ComponentCondition[] {
+    return Reflect.getOwnMetadata(CONDITIONS_META, target) ?? [];
+}
+
+/**
+ * Verifica se uma classe possui condições adiadas (ex.: @ConditionalOnMissingProvider)
+ * @param target - Classe a ser inspecionada
+ * @returns true se alguma condição é adiada
+ */
+export function hasDeferredConditions(target: Function): boolean {
+    return getConditions(target).some((condition) => condition.deferred);
+}
+
+/**
+ * Avalia as condições de registro de uma classe
+ * @param target - Classe a ser avaliada
+ * @param context - Informações do container e do ambiente
+ * @returns Condições não atendidas (vazio se o componente deve ser registrado)
+ */
+export function getUnmetConditions(
+    target: Function,
+    context: ConditionContext
+): ComponentCondition[] {
+    return getConditions(target).filter(
+        (condition) => !condition.matches(context)
+    );
+}
+
+/**
+ * Ordena componentes para que os que possuem condições adiadas sejam
+ * processados por último
+ * @param targets - Classes a serem ordenadas
+ * @returns Novo array ordenado
+ *
+ * @example
+ * ```typescript
+ * for (const serviceClass of orderByConditions(metadataRegistry.services)) {
+ *   // ...
+ * }
+ * ```
+ */
+export function orderByConditions<T extends Function>(
+    targets: Iterable<T>
+): T[] {
+    const all = Array.from(targets);
+    return [
+        ...all.filter((target) => !hasDeferredConditions(target)),
+        ...all.filter(hasDeferredConditions),
+    ];
+}
@@ -1,4 +1,4 @@
-import type { BeanDefinition, Constructor } from "../types";
+import type { BeanDefinition, Constructor, Token } from "../types";
 import { metadataRegistry } from "../core/metadata-registry";
 
 /** Chave para metadados de beans de configuração */
@@ -38,6 +38,7 @@ export function Configuration(): ClassDecorator {
  * O valor retornado pelo método será registrado no container de DI
  * 
  * @param token - Token para identificar o bean (opcional, usa o nome do método se não fornecido)
+ * Com um InjectionToken<T> ou classe, o retorno do método é verificado contra T
  * @returns Decorator de método
  * 
  * @example
@@ -58,10 +59,21 @@ export function Configuration(): ClassDecorator {
  *   myService(): MyService {
  *     return new MyService();
  *   }
+ * 
+ *   @Bean(APP_SETTINGS) // InjectionToken<AppSettings>: o retorno deve ser AppSettings
+ *   settings(): AppSettings {
+ *     return { apiUrl: 'https://api.example.com' };
+ *   }
  * }
  * ```
  */
-export function Bean(token?: string | symbol | Constructor): MethodDecorator {
+export function Bean<T = any>(
+    token?: Token<T>
+): (
+    target: Object,
+    propertyKey: string | symbol,
+    descriptor: TypedPropertyDescriptor<(...args: any[]) => T>
+) => void {
     return (target, propertyKey) => {
         const clazz = target.constructor as Constructor;
 
@@ -1,6 +1,12 @@
 export * from "./application";
+export * from "./cache";
+export * from "./conditional";
 export * from "./configuration";
 export * from "./controller";
 export * from "./http-methods";
+export * from "./inject";
+export * from "./interceptor";
+export * from "./module";
 export * from "./processor";
+export * from "./qualifier";
 export * from "./service";
@@ -0,0 +1,394 @@
+import type {
+    AutowiredOptions,
+    InjectableToken,
+    InjectionMetadata,
+    InjectOptions,
+    OptionalMetadata,
+    PropertyInjectionMetadata,
+} from "../types";
+import { ForwardRef } from "../core/forward-ref";
+import { InjectionToken } from "../core/injection-token";
+import { getParameterQualifiers, getPropertyQualifier } from "./qualifier";
+
+/** Chave para metadados de injeção dos parâmetros do construtor */
+const INJECT_PARAMS_META = "inject:params";
+
+/** Chave para metadados de injeção em propriedades e setters */
+const INJECT_PROPERTIES_META = "inject:properties";
+
+/** Chave para marcações @Optional em parâmetros do construtor */
+const OPTIONAL_PARAMS_META = "inject:optional-params";
+
+/** Chave para marcações @Optional em propriedades e setters */
+const OPTIONAL_PROPERTY_META = "inject:optional";
+
+/**
+ * Decorator de parâmetro que define explicitamente o token a ser injetado
+ * Necessário quando o tipo do parâmetro não existe em runtime (interfaces,
+ * tipos) ou quando a dependência foi registrada com um token string/symbol
+ *
+ * Com `lazy: true`, um proxy é injetado e a dependência só é resolvida no
+ * primeiro acesso, permitindo dependências circulares entre construtores
+ *
+ * @param token - Token que será resolvido no container (ou forwardRef)
+ * @param options - Opções de injeção
+ * @returns Decorator de parâmetro
+ *
+ * @example
+ * ```typescript
+ * @Service()
+ * class PaymentService {
+ *   constructor(
+ *     @Inject('apiKey') private apiKey: string,
+ *     @Inject(LOGGER) private logger: ILogger,
+ *     @Inject(Storage, { qualifier: 's3' }) private storage: Storage,
+ *     @Inject(forwardRef(() => OrderService), { lazy: true })
+ *     private orders: Lazy<OrderService>
+ *   ) {}
+ * }
+ * ```
+ */
+export function Inject(
+    token: InjectableToken,
+    options: InjectOptions = {}
+): ParameterDecorator {
+    return (target, propertyKey, parameterIndex) => {
+        // Apenas parâmetros do construtor são suportados
+        if (propertyKey !== undefined) {
+            throw new Error(
+                `@Inject só pode ser usado em parâmetros do construtor (${String(
+                    propertyKey
+                )})`
+            );
+        }
+
+        const params: (InjectionMetadata | undefined)[] =
+            Reflect.getOwnMetadata(INJECT_PARAMS_META, target) ?? [];
+        params[parameterIndex] = {
+            token,
+            lazy: options.lazy ?? false,
+            qualifier: options.qualifier,
+        };
+
+        Reflect.defineMetadata(INJECT_PARAMS_META, params, target);
+    };
+}
+
+/**
+ * Decorator de parâmetro que injeta um array com as instâncias de todos os
+ * provedores registrados para o token (multi-provedores)
+ * Quando não há provedores, um array vazio é injetado
+ *
+ * @param token - Token dos multi-provedores (ou forwardRef)
+ * @returns Decorator de parâmetro
+ *
+ * @example
+ * ```typescript
+ * container.register(HEALTH_INDICATOR, { useClass: DatabaseHealth, multi: true });
+ * container.register(HEALTH_INDICATOR, { useClass: CacheHealth, multi: true });
+ *
+ * @Service()
+ * class HealthService {
+ *   constructor(
+ *     @InjectAll(HEALTH_INDICATOR) private indicators: HealthIndicator[]
+ *   ) {}
+ * }
+ * ```
+ */
+export function InjectAll(token: InjectableToken): ParameterDecorator {
+    return (target, propertyKey, parameterIndex) => {
+        // Apenas parâmetros do construtor são suportados
+        if (propertyKey !== undefined) {
+            throw new Error(
+                `@InjectAll só pode ser usado em parâmetros do construtor (${String(
+                    propertyKey
+                )})`
+            );
+        }
+
+        const params: (InjectionMetadata | undefined)[] =
+            Reflect.getOwnMetadata(INJECT_PARAMS_META, target) ?? [];
+        params[parameterIndex] = { token, multi: true };
+
+        Reflect.defineMetadata(INJECT_PARAMS_META, params, target);
+    };
+}
+
+/**
+ * Obtém os metadados de injeção dos parâmetros do construtor de uma classe
+ * @param target - Classe a ser inspecionada
+ * @returns Array indexado pela posição do parâmetro (posições sem decorator ficam undefined)
+ *
+ * @example
+ * ```typescript
+ * const params = getInjectionMetadata(PaymentService);
+ * console.log(params[0]?.token); // 'apiKey'
+ * ```
+ */
+export function getInjectionMetadata(
+    target: Function
+): (Partial<InjectionMetadata> | undefined)[] {
+    // Subclasses sem construtor próprio herdam os parâmetros da classe pai
+    const own = Reflect.hasOwnMetadata("design:paramtypes", target);
+    const read = (key: string) =>
+        own
+            ? Reflect.getOwnMetadata(key, target)
+            : Reflect.getMetadata(key, target);
+
+    const params: (InjectionMetadata | undefined)[] =
+        read(INJECT_PARAMS_META) ?? [];
+    const optionals: (OptionalMetadata | undefined)[] =
+        read(OPTIONAL_PARAMS_META) ?? [];
+    const qualifiers = getParameterQualifiers(target, !own);
+    const length = Math.max(
+        params.length,
+        optionals.length,
+        qualifiers.length
+    );
+
+    return Array.from({ length }, (_, index) => {
+        const optional = optionals[index];
+        const qualifier = qualifiers[index];
+        const param: Partial<InjectionMetadata> | undefined =
+            qualifier === undefined
+                ? params[index]
+                : { ...params[index], qualifier };
+        if (!param && !optional) return undefined;
+        return optional
+            ? { ...param, optional: true, defaultValue: optional.defaultValue }
+            : param;
+    });
+}
+
+/**
+ * Registra um ponto de injeção de propriedade nos metadados da classe
+ * @param target - Prototype da classe
+ * @param injection - Metadados da injeção
+ * @private
+ */
+function addPropertyInjection(
+    target: Object,
+    injection: PropertyInjectionMetadata
+): void {
+    const clazz = target.constructor;
+    const properties: PropertyInjectionMetadata[] =
+        Reflect.getOwnMetadata(INJECT_PROPERTIES_META, clazz) ?? [];
+
+    properties.push(injection);
+    Reflect.defineMetadata(INJECT_PROPERTIES_META, properties, clazz);
+}
+
+/**
+ * Decorator de propriedade/setter para injeção de dependências após a construção
+ * Permite que classes base recebam dependências sem repassá-las via super(...)
+ *
+ * @param tokenOrOptions - Token a ser injetado ou opções de injeção
+ * (padrão: tipo refletido da propriedade)
+ * @returns Decorator de propriedade ou setter
+ * @throws Error quando `lazy` é usado em um setter, que recebe a dependência na criação
+ *
+ * @example
+ * ```typescript
+ * abstract class BaseController {
+ *   @Autowired() protected logger!: Logger;
+ * }
+ *
+ * @Service()
+ * class OrderService {
+ *   // Resolvido apenas no primeiro acesso, permitindo referências circulares
+ *   @Autowired({ lazy: true }) private payments!: PaymentService;
+ *
+ *   // Classe declarada depois no arquivo (ou em importação circular)
+ *   @Autowired({ token: forwardRef(() => Inventory), lazy: true })
+ *   private inventory!: Lazy<Inventory>;
+ *
+ *   // Todas as implementações registradas como multi-provedores
+ *   @Autowired({ token: EVENT_LISTENER, multi: true })
+ *   private listeners!: EventListener[];
+ *
+ *   @Autowired()
+ *   set mailer(mailer: Mailer) {
+ *     this.transport = mailer.transport;
+ *   }
+ * }
+ * ```
+ */
+export function Autowired(
+    tokenOrOptions?: InjectableToken | AutowiredOptions
+): PropertyDecorator & MethodDecorator {
+    const options: AutowiredOptions =
+        typeof tokenOrOptions === "object" &&
+        !(tokenOrOptions instanceof InjectionToken) &&
+        !(tokenOrOptions instanceof ForwardRef)
+            ? tokenOrOptions
+            : { token: tokenOrOptions };
+
+    return (
+        target: Object,
+        propertyKey: string | symbol,
+        descriptor?: PropertyDescriptor
+    ) => {
+        // A propriedade lazy seria redefinida na instância, ocultando o setter
+        if (options.lazy && descriptor) {
+            throw new Error(
+                `@Autowired({ lazy: true }) não pode ser usado em setters (${target.constructor.name}.${String(
+                    propertyKey
+                )}); declare-o em uma propriedade`
+            );
+        }
+
+        addPropertyInjection(target, {
+            propertyKey,
+            token:
+                options.token ??
+                Reflect.getMetadata("design:type", target, propertyKey),
+            lazy: options.lazy ?? false,
+            multi: options.multi ?? false,
+            qualifier: options.qualifier,
+        });
+    };
+}
+
+/**
+ * Decorator de propriedade/setter que injeta um valor registrado por token
+ * Útil para valores de configuração fornecidos por beans string/symbol
+ *
+ * @param token - Token do valor no container
+ * @returns Decorator de propriedade ou setter
+ *
+ * @example
+ * ```typescript
+ * @Configuration()
+ * class AppConfig {
+ *   @Bean('apiKey')
+ *   apiKey() { return process.env.API_KEY; }
+ * }
+ *
+ * @Service()
+ * class PaymentService {
+ *   @Value('apiKey') private apiKey!: string;
+ * }
+ * ```
+ */
+export function Value(
+    token: InjectableToken
+): PropertyDecorator & MethodDecorator {
+    return Autowired({ token });
+}
+
+/**
+ * Obtém os pontos de injeção de propriedades de uma classe,
+ * incluindo os declarados nas classes base
+ * @param target - Classe a ser inspecionada
+ * @returns Array de metadados de injeção (propriedades redeclaradas na subclasse prevalecem)
+ *
+ * @example
+ * ```typescript
+ * const properties = getPropertyInjectionMetadata(OrderService);
+ * console.log(properties.map((p) => p.propertyKey)); // ['payments', 'mailer']
+ * ```
+ */
+export function getPropertyInjectionMetadata(
+    target: Function
+): PropertyInjectionMetadata[] {
+    const byKey = new Map<string | symbol, PropertyInjectionMetadata>();
+
+    // Percorre a cadeia de herança da classe base até a subclasse
+    const chain: Function[] = [];
+    for (
+        let current = target;
+        current && current !== Function.prototype;
+        current = Object.getPrototypeOf(current)
+    ) {
+        chain.unshift(current);
+    }
+
+    for (const clazz of chain) {
+        const properties: PropertyInjectionMetadata[] =
+            Reflect.getOwnMetadata(INJECT_PROPERTIES_META, clazz) ?? [];
+        for (const declared of properties) {
+            const optional: OptionalMetadata | undefined = Reflect.getMetadata(
+                OPTIONAL_PROPERTY_META,
+                clazz.prototype,
+                declared.propertyKey
+            );
+            const qualifier = getPropertyQualifier(
+                clazz.prototype,
+                declared.propertyKey
+            );
+            const property =
+                qualifier === undefined ? declared : { ...declared, qualifier };
+            byKey.set(
+                property.propertyKey,
+                optional
+                    ? {
+                          ...property,
+                          optional: true,
+                          defaultValue: optional.defaultValue,
+                      }
+                    : property
+            );
+        }
+    }
+
+    return Array.from(byKey.values());
+}
+
+/**
+ * Decorator que marca uma dependência (parâmetro do construtor, propriedade ou setter)
+ * como opcional. Quando o token não está registrado e não pode ser auto-registrado,
+ * o container injeta o valor padrão informado (ou undefined) em vez de lançar erro
+ *
+ * Em propriedades sem valor padrão, o valor inicial declarado na classe é preservado
+ *
+ * @param defaultValue - Valor injetado quando a dependência não está disponível
+ * @returns Decorator de parâmetro, propriedade ou setter
+ *
+ * @example
+ * ```typescript
+ * @Service()
+ * class NotificationService {
+ *   constructor(
+ *     @Optional() private metrics?: MetricsService,
+ *     @Optional(5000) @Inject('timeout') private timeout: number
+ *   ) {}
+ *
+ *   @Optional() @Autowired() private tracer?: Tracer;
+ * }
+ * ```
+ */
+export function Optional(
+    defaultValue?: unknown
+): ParameterDecorator & PropertyDecorator & MethodDecorator {
+    return (
+        target: Object,
+        propertyKey: string | symbol | undefined,
+        parameterIndex?: number | PropertyDescriptor
+    ) => {
+        const optional: OptionalMetadata = { defaultValue };
+
+        if (typeof parameterIndex === "number") {
+            // Apenas parâmetros do construtor são suportados
+            if (propertyKey !== undefined) {
+                throw new Error(
+                    `@Optional só pode ser usado em parâmetros do construtor, propriedades ou setters (${String(
+                        propertyKey
+                    )})`
+                );
+            }
+
+            const optionals: (OptionalMetadata | undefined)[] =
+                Reflect.getOwnMetadata(OPTIONAL_PARAMS_META, target) ?? [];
+            optionals[parameterIndex] = optional;
+            Reflect.defineMetadata(OPTIONAL_PARAMS_META, optionals, target);
+            return;
+        }
+
+        Reflect.defineMetadata(
+            OPTIONAL_PROPERTY_META,
+            optional,
+            target,
+            propertyKey!
+        );
+    };
+}
@@ -0,0 +1,202 @@
+import type {
+    AfterInterceptor,
+    AroundInterceptor,
+    BeforeInterceptor,
+    Constructor,
+    InterceptorBinding,
+    ServiceOptions,
+} from "../types";
+import { Service } from "./service";
+
+/** Chave para os interceptadores de uma classe ou de um método */
+const INTERCEPTOR_BINDINGS_META = "interceptor:bindings";
+
+/** Chave para os métodos que declaram interceptadores próprios */
+const INTERCEPTOR_METHODS_META = "interceptor:methods";
+
+/**
+ * Decorator de classe que marca um interceptador, registrado no container como serviço
+ * Interceptadores podem injetar dependências como qualquer outro serviço
+ *
+ * @param options - Escopo do interceptador (padrão: singleton)
+ * @returns Decorator de classe
+ *
+ * @example
+ * ```typescript
+ * @Interceptor()
+ * class LoggingInterceptor implements BeforeInterceptor {
+ *   constructor(private logger: Logger) {}
+ *
+ *   before({ methodName }: InvocationContext) {
+ *     this.logger.info(`chamando ${String(methodName)}`);
+ *   }
+ * }
+ * ```
+ */
+export function Interceptor(
+    options: Pick<ServiceOptions, "scope" | "lifecycle"> = {}
+): ClassDecorator {
+    return Service(options);
+}
+
+/**
+ * Cria um decorator que vincula interceptadores a uma classe ou a um método
+ * Os vínculos são mantidos na ordem em que aparecem no código-fonte
+ * @private
+ */
+function bindInterceptors(
+    decorator: string,
+    bindings: InterceptorBinding[]
+): ClassDecorator & MethodDecorator {
+    return (target: Object, propertyKey?: string | symbol) => {
+        if (propertyKey === undefined) {
+            const current: InterceptorBinding[] =
+                Reflect.getOwnMetadata(INTERCEPTOR_BINDINGS_META, target) ?? [];
+            // Decorators são aplicados de baixo para cima
+            Reflect.defineMetadata(
+                INTERCEPTOR_BINDINGS_META,
+                [...bindings, ...current],
+                target
+            );
+            return;
+        }
+
+        if (typeof target === "function") {
+            throw new Error(
+                `${decorator} não pode ser usado em métodos estáticos (${target.name}.${String(
+                    propertyKey
+                )})`
+            );
+        }
+
+        const current: InterceptorBinding[] =
+            Reflect.getOwnMetadata(
+                INTERCEPTOR_BINDINGS_META,
+                target,
+                propertyKey
+            ) ?? [];
+        Reflect.defineMetadata(
+            INTERCEPTOR_BINDINGS_META,
+            [...bindings, ...current],
+            target,
+            propertyKey
+        );
+
+        const methods: (string | symbol)[] =
+            Reflect.getMetadata(INTERCEPTOR_METHODS_META, target.constructor) ??
+            [];
+        if (!methods.includes(propertyKey)) {
+            Reflect.defineMetadata(
+                INTERCEPTOR_METHODS_META,
+                [...methods, propertyKey],
+                target.constructor
+            );
+        }
+    };
+}
+
+/**
+ * Executa interceptadores antes do método (ou de todos os métodos da classe)
+ *
+ * @param interceptors - Classes que implementam BeforeInterceptor
+ * @returns Decorator de classe ou método
+ *
+ * @example
+ * ```typescript
+ * @Service()
+ * class OrderService {
+ *   @Before(AuthInterceptor, ValidationInterceptor)
+ *   placeOrder(order: Order) {}
+ * }
+ * ```
+ */
+export function Before(
+    ...interceptors: Constructor<BeforeInterceptor>[]
+): ClassDecorator & MethodDecorator {
+    return bindInterceptors(
+        "@Before",
+        interceptors.map((interceptor) => ({ kind: "before", interceptor }))
+    );
+}
+
+/**
+ * Executa interceptadores depois do método (ou de todos os métodos da classe),
+ * tanto em caso de sucesso quanto de erro
+ *
+ * @param interceptors - Classes que implementam AfterInterceptor
+ * @returns Decorator de classe ou método
+ *
+ * @example
+ * ```typescript
+ * @Service()
+ * @After(MetricsInterceptor)
+ * class PaymentService {}
+ * ```
+ */
+export function After(
+    ...interceptors: Constructor<AfterInterceptor>[]
+): ClassDecorator & MethodDecorator {
+    return bindInterceptors(
+        "@After",
+        interceptors.map((interceptor) => ({ kind: "after", interceptor }))
+    );
+}
+
+/**
+ * Envolve o método (ou todos os métodos da classe) com interceptadores
+ * que controlam a chamada através de `proceed()`
+ *
+ * @param interceptors - Classes que implementam AroundInterceptor
+ * @returns Decorator de classe ou método
+ *
+ * @example
+ * ```typescript
+ * @Service()
+ * class ReportService {
+ *   @Around(TimingInterceptor, RetryInterceptor)
+ *   async generate() {}
+ * }
+ * ```
+ */
+export function Around(
+    ...interceptors: Constructor<AroundInterceptor>[]
+): ClassDecorator & MethodDecorator {
+    return bindInterceptors(
+        "@Around",
+        interceptors.map((interceptor) => ({ kind: "around", interceptor }))
+    );
+}
+
+/**
+ * Obtém os interceptadores declarados na classe (incluindo os herdados)
+ * @param target - Classe a ser inspecionada
+ * @returns Vínculos na ordem de declaração
+ */
+export function getClassInterceptors(target: Function): InterceptorBinding[] {
+    return Reflect.getMetadata(INTERCEPTOR_BINDINGS_META, target) ?? [];
+}
+
+/**
+ * Obtém os interceptadores declarados em um método (incluindo os herdados)
+ * @param prototype - Prototype da classe
+ * @param methodName - Nome do método
+ * @returns Vínculos na ordem de declaração
+ */
+export function getMethodInterceptors(
+    prototype: Object,
+    methodName: string | symbol
+): InterceptorBinding[] {
+    return (
+        Reflect.getMetadata(INTERCEPTOR_BINDINGS_META, prototype, methodName) ??
+        []
+    );
+}
+
+/**
+ * Obtém os métodos que declaram interceptadores próprios
+ * @param target - Classe a ser inspecionada
+ * @returns Nomes dos métodos
+ */
+export function getInterceptedMethods(target: Function): (string | symbol)[] {
+    return Reflect.getMetadata(INTERCEPTOR_METHODS_META, target) ?? [];
+}
@@ -0,0 +1,107 @@
+import type { Constructor, ModuleMetadata, ModuleProvider } from "../types";
+import { metadataRegistry } from "../core/metadata-registry";
+
+/** Chave para a definição de @Module */
+const MODULE_META = "module:metadata";
+
+/** Chave para o módulo que declara um provedor ou controlador */
+const MODULE_OWNER_META = "module:owner";
+
+/**
+ * Decorator que define um módulo: um contexto com container próprio, cujos
+ * provedores não exportados são privados
+ * Classes declaradas em um módulo não são auto-registradas em outros containers;
+ * os módulos que precisam delas devem importar o módulo que as exporta. Classes
+ * que nenhum módulo declara não podem ser injetadas nos provedores de módulos
+ *
+ * @param metadata - Imports, provedores, controladores e exports do módulo
+ * @returns Decorator de classe
+ * @throws Error quando uma classe já foi declarada em outro módulo
+ *
+ * @example
+ * ```typescript
+ * @Module({
+ *   providers: [UserService, UserRepository],
+ *   controllers: [UserController],
+ *   exports: [UserService], // UserRepository é privado do módulo
+ * })
+ * class UsersModule {}
+ *
+ * @Module({ imports: [UsersModule], providers: [BillingService] })
+ * class BillingModule {}
+ * ```
+ */
+export function Module(metadata: ModuleMetadata): ClassDecorator {
+    return (target) => {
+        const moduleClass = target as any as Constructor;
+        declareModuleComponents(moduleClass, metadata);
+
+        Reflect.defineMetadata(MODULE_META, metadata, moduleClass);
+        metadataRegistry.modules.add(moduleClass);
+    };
+}
+
+/**
+ * Marca as classes de providers e controllers como pertencentes ao módulo
+ * Usado por @Module e pelos módulos dinâmicos, cujas classes só são conhecidas
+ * na importação
+ * @param moduleClass - Classe do módulo
+ * @param metadata - Provedores e controladores declarados
+ * @throws Error quando uma classe já foi declarada em outro módulo
+ */
+export function declareModuleComponents(
+    moduleClass: Constructor,
+    metadata: Pick<ModuleMetadata, "providers" | "controllers">
+): void {
+    const declarations: ModuleProvider[] = [
+        ...(metadata.providers ?? []),
+        ...(metadata.controllers ?? []),
+    ];
+
+    for (const declaration of declarations) {
+        const declared =
+            typeof declaration === "function"
+                ? declaration
+                : declaration.useClass;
+        if (!declared) continue;
+
+        const owner = getDeclaringModule(declared);
+        if (owner && owner !== moduleClass) {
+            throw new Error(
+                `${declared.name} já foi declarado no módulo ${owner.name} e não pode ser declarado em ${moduleClass.name}. Exporte-o de ${owner.name} e importe o módulo`
+            );
+        }
+        Reflect.defineMetadata(MODULE_OWNER_META, moduleClass, declared);
+    }
+}
+
+/**
+ * Obtém a definição de um módulo
+ * @param moduleClass - Classe decorada com @Module
+ * @returns Definição do módulo ou undefined se a classe não é um módulo
+ */
+export function getModuleMetadata(
+    moduleClass: Function
+): ModuleMetadata | undefined {
+    return Reflect.getOwnMetadata(MODULE_META, moduleClass);
+}
+
+/**
+ * Verifica se uma classe é um módulo
+ * @param target - Classe a ser verificada
+ * @returns true se a classe foi decorada com @Module
+ */
+export function isModule(target: unknown): target is Constructor {
+    return (
+        typeof target === "function" && getModuleMetadata(target) !== undefined
+    );
+}
+
+/**
+ * Obtém o módulo que declara uma classe em providers ou controllers
+ * @param target - Classe do provedor ou controlador
+ * @returns Classe do módulo ou undefined se a classe não pertence a um módulo
+ */
+export function getDeclaringModule(target: Function): Constructor | undefined {
+    return Reflect.getOwnMetadata(MODULE_OWNER_META, target);
+}
@@ -0,0 +1,185 @@
+/** Chave para o qualificador declarado em classes */
+const QUALIFIER_META = "qualifier:name";
+
+/** Chave para marcações @Primary */
+const PRIMARY_META = "qualifier:primary";
+
+/** Chave para qualificadores de parâmetros do construtor */
+const QUALIFIER_PARAMS_META = "qualifier:params";
+
+/** Chave para qualificadores de propriedades e setters */
+const QUALIFIER_PROPERTY_META = "qualifier:property";
+
+/**
+ * Decorator que associa um qualificador (nome) a uma implementação ou a um ponto de injeção
+ *
+ * Em classes, registra a implementação também sob o par (token, nome); em parâmetros
+ * do construtor, propriedades ou setters, seleciona a implementação com esse nome
+ *
+ * @param name - Nome da implementação
+ * @returns Decorator de classe, parâmetro, propriedade ou setter
+ *
+ * @example
+ * ```typescript
+ * @Service({ provide: Storage })
+ * @Named('s3')
+ * class S3Storage extends Storage {}
+ *
+ * @Service({ provide: Storage })
+ * @Named('local')
+ * class LocalStorage extends Storage {}
+ *
+ * @Service()
+ * class UploadService {
+ *   constructor(@Named('s3') private storage: Storage) {}
+ *
+ *   @Autowired() @Named('local') private cache!: Storage;
+ * }
+ * ```
+ */
+export function Named(
+    name: string
+): ClassDecorator & ParameterDecorator & PropertyDecorator & MethodDecorator {
+    return (
+        target: Object,
+        propertyKey?: string | symbol,
+        parameterIndex?: number | PropertyDescriptor
+    ) => {
+        if (typeof parameterIndex === "number") {
+            // Apenas parâmetros do construtor são suportados
+            if (propertyKey !== undefined) {
+                throw new Error(
+                    `@Named só pode ser usado em classes, parâmetros do construtor, propriedades ou setters (${String(
+                        propertyKey
+                    )})`
+                );
+            }
+
+            const qualifiers: (string | undefined)[] =
+                Reflect.getOwnMetadata(QUALIFIER_PARAMS_META, target) ?? [];
+            qualifiers[parameterIndex] = name;
+            Reflect.defineMetadata(QUALIFIER_PARAMS_META, qualifiers, target);
+            return;
+        }
+
+        if (propertyKey !== undefined) {
+            Reflect.defineMetadata(
+                QUALIFIER_PROPERTY_META,
+                name,
+                target,
+                propertyKey
+            );
+            return;
+        }
+
+        Reflect.defineMetadata(QUALIFIER_META, name, target);
+    };
+}
+
+/**
+ * Alias de @Named, para quem prefere a nomenclatura de qualificadores
+ *
+ * @param name - Nome da implementação
+ * @returns Decorator de classe, parâmetro, propriedade ou setter
+ *
+ * @example
+ * ```typescript
+ * @Service({ provide: PaymentGateway })
+ * @Qualifier('stripe')
+ * class StripeGateway extends PaymentGateway {}
+ * ```
+ */
+export function Qualifier(
+    name: string
+): ClassDecorator & ParameterDecorator & PropertyDecorator & MethodDecorator {
+    return Named(name);
+}
+
+/**
+ * Decorator de classe que marca a implementação padrão de um token
+ * Quando várias classes declaram @Service({ provide }) para o mesmo token,
+ * a marcada com @Primary é injetada nos pontos sem qualificador
+ *
+ * @returns Decorator de classe
+ *
+ * @example
+ * ```typescript
+ * @Service({ provide: Storage })
+ * @Primary()
+ * @Named('s3')
+ * class S3Storage extends Storage {}
+ * ```
+ */
+export function Primary(): ClassDecorator {
+    return (target) => {
+        Reflect.defineMetadata(PRIMARY_META, true, target);
+    };
+}
+
+/**
+ * Obtém o qualificador declarado em uma classe com @Named
+ * @param target - Classe a ser inspecionada
+ * @returns Nome da implementação ou undefined
+ */
+export function getQualifier(target: Function): string | undefined {
+    return Reflect.getOwnMetadata(QUALIFIER_META, target);
+}
+
+/**
+ * Verifica se uma classe foi marcada com @Primary
+ * @param target - Classe a ser inspecionada
+ * @returns true se a classe é a implementação padrão
+ */
+export function isPrimary(target: Function): boolean {
+    return Reflect.getOwnMetadata(PRIMARY_META, target) === true;
+}
+
+/**
+ * Obtém os qualificadores dos parâmetros do construtor de uma classe
+ * @param target - Classe a ser inspecionada
+ * @param inherited - Lê os metadados herdados da classe pai
+ * @returns Array indexado pela posição do parâmetro
+ */
+export function getParameterQualifiers(
+    target: Function,
+    inherited = false
+): (string | undefined)[] {
+    return (
+        (inherited
+            ? Reflect.getMetadata(QUALIFIER_PARAMS_META, target)
+            : Reflect.getOwnMetadata(QUALIFIER_PARAMS_META, target)) ?? []
+    );
+}
+
+/**
+ * Obtém o qualificador declarado em uma propriedade ou setter
+ * @param prototype - Prototype da classe
+ * @param propertyKey - Nome da propriedade
+ * @returns Nome da implementação ou undefined
+ */
+export function getPropertyQualifier(
+    prototype: Object,
+    propertyKey: string | symbol
+): string | undefined {
+    return Reflect.getMetadata(QUALIFIER_PROPERTY_META, prototype, propertyKey);
+}
+
+/**
+ * Seleciona a implementação injetada nos pontos sem qualificador:
+ * a única candidata ou a única marcada com @Primary
+ * @param candidates - Implementações de um mesmo token
+ * @returns Implementação selecionada ou undefined quando há ambiguidade
+ *
+ * @example
+ * ```typescript
+ * const selected = selectPrimary([S3Storage, LocalStorage]);
+ * ```
+ */
+export function selectPrimary<T extends Function>(
+    candidates: T[]
+): T | undefined {
+    if (candidates.length === 1) return candidates[0];
+
+    const primaries = candidates.filter((candidate) => isPrimary(candidate));
+    return primaries.length === 1 ? primaries[0] : undefined;
+}
@@ -1,5 +1,10 @@
 import { metadataRegistry } from "../core/metadata-registry";
-import type { ServiceOptions, LifeCycleOpt, LifeCycleConfig } from "../types";
+import type {
+    ServiceOptions,
+    ServiceBinding,
+    LifeCycleOpt,
+    LifeCycleConfig,
+} from "../types";
 
 /** Chave para metadados de escopo do serviço */
 const SERVICE_SCOPE_META = "service:scope";
@@ -7,6 +12,9 @@ const SERVICE_SCOPE_META = "service:scope";
 /** Chave para metadados de configuração do ciclo de vida */
 const SERVICE_LIFECYCLE_META = "service:lifecycle";
 
+/** Chave para metadados do token de abstração provido pelo serviço */
+const SERVICE_BINDING_META = "service:binding";
+
 /**
  * Decorator que marca uma classe como serviço gerenciado pelo container de DI
  * Configura o escopo do ciclo de vida e registra o serviço no sistema
@@ -14,6 +22,8 @@ const SERVICE_LIFECYCLE_META = "service:lifecycle";
  * @param options - Configurações do serviço
  * @param options.scope - Escopo do ciclo de vida (singleton, transient, request)
  * @param options.lifecycle - Configuração completa do ciclo de vida
+ * @param options.provide - Token de abstração (classe abstrata, string ou symbol) implementado pelo serviço
+ * @param options.multi - Registra o serviço sob `provide` como multi-provedor
  * @returns Decorator de classe
  * 
  * @example
@@ -31,6 +41,15 @@ const SERVICE_LIFECYCLE_META = "service:lifecycle";
  * class RequestScopedService {
  *   // Nova instância para cada requisição HTTP
  * }
+ *
+ * abstract class UserRepository {
+ *   abstract findAll(): User[];
+ * }
+ *
+ * @Service({ provide: UserRepository })
+ * class SqlUserRepository extends UserRepository {
+ *   // Injetado onde UserRepository for requisitado
+ * }
  * ```
  */
 export function Service(options: ServiceOptions = {}): ClassDecorator {
@@ -48,6 +67,15 @@ export function Service(options: ServiceOptions = {}): ClassDecorator {
         if (options.lifecycle) {
             Reflect.defineMetadata(SERVICE_LIFECYCLE_META, options.lifecycle, target);
         }
+
+        // Armazenar o vínculo com o token de abstração se fornecido
+        if (options.provide !== undefined) {
+            const binding: ServiceBinding = {
+                provide: options.provide,
+                multi: options.multi ?? false,
+            };
+            Reflect.defineMetadata(SERVICE_BINDING_META, binding, target);
+        }
     };
 }
 
@@ -83,6 +111,21 @@ export function getServiceLifecycle(target: any): LifeCycleConfig | undefined {
     return Reflect.getMetadata(SERVICE_LIFECYCLE_META, target);
 }
 
+/**
+ * Obtém o vínculo de um serviço com um token de abstração
+ * @param target - Classe do serviço
+ * @returns Vínculo definido via @Service({ provide }) ou undefined
+ * 
+ * @example
+ * ```typescript
+ * const binding = getServiceBinding(SqlUserRepository);
+ * console.log(binding?.provide === UserRepository); // true
+ * ```
+ */
+export function getServiceBinding(target: any): ServiceBinding | undefined {
+    return Reflect.getOwnMetadata(SERVICE_BINDING_META, target);
+}
+
 /**
  * Decorator de conveniência para serviços com escopo singleton
  * 
@@ -1,6 +1,11 @@
-import type { HttpAdapter } from "../types";
-import { GlobalContainer, metadataRegistry } from "../core";
-import { cleanupRequest, applyLifecycle } from "../core/life-cycle";
+import type { HttpAdapter, RegisteredRoute } from "../types";
+import {
+    getModuleContainer,
+    GlobalContainer,
+    metadataRegistry,
+    type Container,
+} from "../core";
+import { getDeclaringModule } from "../decorators/module";
 
 /**
  * Gera um ID único para cada requisição HTTP
@@ -12,12 +17,53 @@ function generateRequestId(): string {
     return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+/**
+ * Obtém o container em que um controlador é resolvido
+ * Retorna undefined para controladores que não foram registrados: com condições
+ * não atendidas, declarados em um módulo não construído ou, com um módulo raiz,
+ * não declarados por nenhum módulo
+ * @private
+ */
+function getControllerContainer(
+    controllerClass: Function,
+    modular: boolean
+): Container | undefined {
+    const container =
+        getModuleContainer(controllerClass) ??
+        (getDeclaringModule(controllerClass) || modular
+            ? undefined
+            : GlobalContainer);
+    if (!container) {
+        console.log(
+            `[INFO] [ROUTES] Ignorando controlador ${controllerClass.name}: não pertence a um módulo construído`
+        );
+        return undefined;
+    }
+
+    const unmet = container.getUnmetConditions(controllerClass);
+    if (unmet.length) {
+        console.log(
+            `[INFO] [ROUTES] Ignorando controlador ${controllerClass.name}: ${unmet
+                .map((condition) => condition.description)
+                .join(", ")} não atendida`
+        );
+        return undefined;
+    }
+    return container;
+}
+
 /**
  * Registra todas as rotas HTTP dos controladores no adapter
  * Processa todos os controladores registrados e suas rotas,
  * configurando handlers com gerenciamento de ciclo de vida
+ * Controladores declarados em um @Module são resolvidos no container do módulo;
+ * controladores com condições não atendidas (@Profile, @ConditionalOn*) não
+ * têm rotas registradas
  *
  * @param adapter - Adapter HTTP (Express ou Fastify)
+ * @param options.modular - Se true (aplicação com módulo raiz), apenas
+ * controladores declarados nos módulos construídos têm rotas registradas
+ * @returns Rotas registradas, na ordem de registro
  *
  * @example
  * ```typescript
@@ -27,12 +73,22 @@ function generateRequestId(): string {
  * await adapter.listen(3000);
  * ```
  */
-export function registerHttpRoutes(adapter: HttpAdapter): void {
+export function registerHttpRoutes(
+    adapter: HttpAdapter,
+    options: { modular?: boolean } = {}
+): RegisteredRoute[] {
+    const registered: RegisteredRoute[] = [];
     console.log(
         `[INFO] [ROUTES] Registrando rotas HTTP...`
     );
 
     for (const controllerClass of metadataRegistry.controllers) {
+        const container = getControllerContainer(
+            controllerClass,
+            options.modular ?? false
+        );
+        if (!container) continue;
+
         const basePath = Reflect.getMetadata(
             "controller:path",
             controllerClass
@@ -56,107 +112,68 @@ export function registerHttpRoutes(adapter: HttpAdapter): void {
                 async (req: any, res: any) => {
                     const requestId = generateRequestId();
 
-                    try {
-                        // Resolver o controlador com o ciclo de vida apropriado
-                        const controllerInstance =
-                            resolveControllerWithLifecycle(
-                                controllerClass,
-                                requestId
-                            );
-
-                        const boundHandler =
-                            controllerInstance[route.handlerName].bind(
-                                controllerInstance
-                            );
-                        const result = await boundHandler(req, res);
-
-                        // Resposta baseada no tipo de adapter
-                        if (res?.send && typeof res.send === "function") {
-                            return res.send(result);
-                        }
-                        if (res?.json && typeof res.json === "function") {
-                            return res.json(result);
-                        }
-                        return result;
-                    } catch (err: any) {
-                        console.error(
-                            `❌ Erro na rota ${route.method} ${fullPath}:`,
-                            err
-                        );
-
-                        const error: Error =
-                            err instanceof Error ? err : new Error(String(err));
-
-                        if (res?.status && typeof res.status === "function") {
-                            return res.status(500).send({
-                                error: error.message,
-                                requestId,
-                            });
-                        }
-                        throw err;
-                    } finally {
-                        // Sempre limpar as instâncias de request após o processamento
+                    // Executa o handler no escopo da requisição: resolve() usa o requestId
+                    // automaticamente e as instâncias request-scoped são liberadas ao final
+                    return container.runInScope(requestId, async () => {
                         try {
-                            await cleanupRequest(requestId);
-                            GlobalContainer.clearRequestInstances(requestId);
-                        } catch (cleanupError) {
+                            // Resolver o controlador no escopo da requisição; o container
+                            // aplica o ciclo de vida ao criar instâncias transient/request
+                            const controllerInstance: any =
+                                container.resolve(controllerClass);
+
+                            const boundHandler =
+                                controllerInstance[route.handlerName].bind(
+                                    controllerInstance
+                                );
+                            const result = await boundHandler(req, res);
+
+                            // Resposta baseada no tipo de adapter
+                            if (
+                                res?.send &&
+                                typeof res.send === "function"
+                            ) {
+                                return res.send(result);
+                            }
+                            if (
+                                res?.json &&
+                                typeof res.json === "function"
+                            ) {
+                                return res.json(result);
+                            }
+                            return result;
+                        } catch (err: any) {
                             console.error(
-                                `❌ Erro no cleanup da requisição ${requestId}:`,
-                                cleanupError
+                                `❌ Erro na rota ${route.method} ${fullPath}:`,
+                                err
                             );
+
+                            const error: Error =
+                                err instanceof Error
+                                    ? err
+                                    : new Error(String(err));
+
+                            if (
+                                res?.status &&
+                                typeof res.status === "function"
+                            ) {
+                                return res.status(500).send({
+                                    error: error.message,
+                                    requestId,
+                                });
+                            }
+                            throw err;
                         }
-                    }
+                    });
                 }
             );
+            registered.push({
+                method: route.method,
+                path: fullPath,
+                controller: controllerClass,
+                handlerName: route.handlerName,
+            });
         }
     }
-}
-
-/**
- * Resolve uma instância de controlador aplicando o ciclo de vida apropriado
- * Gerencia diferentes escopos (singleton, transient, request) para controladores
- *
- * @param controllerClass - Classe do controlador
- * @param requestId - ID da requisição HTTP
- * @returns Instância do controlador com ciclo de vida aplicado
- * @private
- */
-function resolveControllerWithLifecycle(
-    controllerClass: any,
-    requestId: string
-): any {
-    const scope =
-        Reflect.getMetadata("service:scope", controllerClass) ?? "singleton";
-
-    let controllerInstance;
-
-    switch (scope) {
-        case "singleton":
-            // Para singleton, já foi resolvido e teve lifecycle aplicado no scanner
-            controllerInstance = GlobalContainer.resolve(controllerClass);
-            break;
-
-        case "transient":
-            // Para transient, criar nova instância e aplicar lifecycle
-            controllerInstance = GlobalContainer.resolve(
-                controllerClass,
-                requestId
-            );
-            applyLifecycle(controllerInstance, "transient");
-            break;
-
-        case "request":
-            // Para request, resolver com requestId e aplicar lifecycle específico
-            controllerInstance = GlobalContainer.resolve(
-                controllerClass,
-                requestId
-            );
-            applyLifecycle(controllerInstance, "request", requestId);
-            break;
-
-        default:
-            throw new Error(`Escopo não suportado para controlador: ${scope}`);
-    }
 
-    return controllerInstance;
+    return registered;
 }
@@ -1,14 +1,19 @@
 import "reflect-metadata";
 import {
+    addShutdownHook,
     ExpressAdapter,
     FastifyAdapter,
     getApplicationOptions,
     GlobalContainer,
+    invokePlugins,
     loadModulesFrom,
     metadataRegistry,
     registerHttpRoutes,
     scanAndRegister,
+    scanModule,
+    shutdownPlugins,
     type HttpAdapter,
+    type PluginContext,
 } from ".";
 
 /**
@@ -32,13 +37,21 @@ function removeRightOfLastSlash(p: string): string {
  * Inicializa todo o framework, carrega módulos, registra componentes e inicia o servidor HTTP
  * 
  * Processo de bootstrap:
- * 1. Carrega e escaneia módulos do diretório
- * 2. Registra todos os componentes no container DI
+ * 1. Carrega e escaneia módulos do diretório (ou, com `@Application({ module })`,
+ *    constrói os módulos a partir do módulo raiz, sem escanear diretórios)
+ * 2. Registra todos os componentes no container DI e aguarda seus onInit
+ *    (se algum onInit obrigatório falhar, o container é descartado e o bootstrap abortado)
  * 3. Resolve e executa a aplicação principal
  * 4. Configura e inicia o servidor HTTP
+ *
+ * Os plugins de `@Application({ plugins })` são executados nas fases:
+ * beforeScan (antes do passo 1), afterRegister (após o passo 2),
+ * onRouteRegistered (para cada rota), beforeListen (antes de escutar) e
+ * onShutdown (no shutdown() ou quando o bootstrap é abortado)
  * 
  * @param AppClass - Classe principal da aplicação marcada com @Application
- * @param url - URL do arquivo principal (usado para determinar o diretório dos módulos)
+ * @param url - URL do arquivo principal (usado para determinar o diretório dos módulos;
+ * dispensável quando a aplicação declara um módulo raiz)
  * 
  * @example
  * ```typescript
@@ -47,31 +60,83 @@ function removeRightOfLastSlash(p: string): string {
  * import { MyApp } from './app';
  * 
  * await bootstrap(MyApp, import.meta.url);
+ *
+ * // A partir de um módulo raiz
+ * @Application({ module: AppModule })
+ * class MyModularApp {}
+ *
+ * await bootstrap(MyModularApp);
  * ```
  */
 export async function bootstrap(
     AppClass: typeof metadataRegistry.application,
-    url: string
+    url?: string
 ) {
-    // 1. Carrega e escaneia módulos
-    await loadModulesFrom(removeRightOfLastSlash(url));
-    await scanAndRegister();
-
-    // 2. Obtém e executa a aplicação principal
     if (!AppClass) throw new Error("Nenhuma classe @Application encontrada.");
     const opts = getApplicationOptions(AppClass);
-    const appInstance = GlobalContainer.resolve(AppClass);
-    if (typeof appInstance.run === "function") {
-        await appInstance.run();
+    if (!opts.module && !url) {
+        throw new Error(
+            "Informe a URL do arquivo principal ou declare o módulo raiz em @Application({ module })."
+        );
     }
 
-    // 3. Inicia o servidor HTTP
+    const plugins = opts.plugins ?? [];
     const adapter: HttpAdapter =
         opts.adapter === "express"
             ? new ExpressAdapter()
             : new FastifyAdapter();
-    adapter.init();
+    const context: PluginContext = {
+        container: GlobalContainer,
+        metadataRegistry,
+        adapter,
+        options: opts,
+    };
+
+    const scanOptions = {
+        strict: opts.strict,
+        profiles: opts.profiles,
+        initTimeout: opts.initTimeout,
+    };
+    const removeShutdownHook = addShutdownHook(() =>
+        shutdownPlugins(plugins, context)
+    );
+    try {
+        await invokePlugins(plugins, "beforeScan", context);
+
+        // 1. Carrega e escaneia módulos (desnecessário com um módulo raiz)
+        if (opts.module) {
+            await scanModule(opts.module, scanOptions);
+        } else {
+            await loadModulesFrom(removeRightOfLastSlash(url!));
+            await scanAndRegister(scanOptions);
+        }
+
+        await invokePlugins(plugins, "afterRegister", context);
 
-    registerHttpRoutes(adapter);
-    await adapter.listen(opts.port!);
+        // 2. Obtém e executa a aplicação principal
+        const appInstance = GlobalContainer.resolve(AppClass);
+        if (typeof appInstance.run === "function") {
+            await appInstance.run();
+        }
+
+        // 3. Inicia o servidor HTTP
+        adapter.init();
+
+        for (const route of registerHttpRoutes(adapter, {
+            modular: !!opts.module,
+        })) {
+            await invokePlugins(plugins, "onRouteRegistered", route, context);
+        }
+        await invokePlugins(plugins, "beforeListen", context);
+        await adapter.listen(opts.port!);
+    } catch (error) {
+        // Falha no bootstrap: destrói o que já foi inicializado antes de abortar
+        console.error("[ERROR] [BOOTSTRAP] Falha na inicialização, abortando...");
+        removeShutdownHook();
+        await shutdownPlugins(plugins, context);
+        await GlobalContainer.dispose();
+        // Mantém o GlobalContainer utilizável (ex.: nova tentativa ou testes no mesmo processo)
+        GlobalContainer.reset();
+        throw error;
+    }
 }
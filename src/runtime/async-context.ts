@@ -0,0 +1,82 @@
+import * as asyncHooks from "node:async_hooks";
+
+/**
+ * Abstração de contexto assíncrono que funciona em todos os runtimes
+ * Usa AsyncLocalStorage de node:async_hooks, disponível no Node.js, Bun e Deno
+ * (importado estaticamente: em builds ESM não há `require` e versões do Node
+ * anteriores à 20.16 não possuem process.getBuiltinModule). Em bundles que
+ * substituem node:async_hooks por um módulo vazio, uma pilha síncrona é usada
+ * como fallback, com um aviso
+ */
+
+/**
+ * Contexto que propaga um valor ao longo de uma cadeia de execução
+ * @template T - Tipo do valor armazenado
+ */
+export interface AsyncContext<T> {
+    /**
+     * Executa uma função com o valor informado como contexto atual
+     * @param store - Valor disponível durante a execução
+     * @param fn - Função a ser executada
+     * @returns Resultado da função
+     */
+    run<R>(store: T, fn: () => R): R;
+
+    /**
+     * Obtém o valor do contexto atual
+     * @returns Valor atual ou undefined fora de run()
+     */
+    getStore(): T | undefined;
+
+    /** Se true, o contexto é propagado através de await/callbacks */
+    readonly propagatesAsync: boolean;
+}
+
+/**
+ * Cria um contexto assíncrono, propagado através de await e callbacks
+ * Sem AsyncLocalStorage, o contexto só é visível na parte síncrona da função
+ * executada (continuações após await não enxergam o valor) e `propagatesAsync`
+ * é false
+ *
+ * @returns Novo contexto
+ * @template T - Tipo do valor armazenado
+ *
+ * @example
+ * ```typescript
+ * const context = createAsyncContext<string>();
+ *
+ * await context.run('req-1', async () => {
+ *   await doWork();
+ *   console.log(context.getStore()); // 'req-1'
+ * });
+ * ```
+ */
+export function createAsyncContext<T>(): AsyncContext<T> {
+    if (typeof asyncHooks.AsyncLocalStorage === "function") {
+        const storage = new asyncHooks.AsyncLocalStorage<T>();
+        return {
+            run: (store, fn) => storage.run(store, fn),
+            getStore: () => storage.getStore(),
+            propagatesAsync: true,
+        };
+    }
+
+    console.warn(
+        "[WARN] [RUNTIME] AsyncLocalStorage indisponível: o contexto de requisição não será propagado através de await"
+    );
+
+    // Fallback: pilha síncrona de contextos
+    const stack: T[] = [];
+    return {
+        run(store, fn) {
+            stack.push(store);
+            try {
+                return fn();
+            } finally {
+                stack.pop();
+            }
+        },
+        getStore: () => stack[stack.length - 1],
+        propagatesAsync: false,
+    };
+}
@@ -5,4 +5,5 @@
 
 export * from "./uuid";
 export * from "./url";
-export * from "./detector"; 
\ No newline at end of file
+export * from "./detector";
+export * from "./async-context";
\ No newline at end of file
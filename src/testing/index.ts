@@ -0,0 +1,12 @@
+/**
+ * Utilitários de testes
+ * Containers isolados, substituição de provedores e mocks automáticos
+ *
+ * @example
+ * ```typescript
+ * import { createTestingModule, createMock } from '@injektor/infuse/testing';
+ * ```
+ */
+
+export * from "./mock";
+export * from "./testing-module";
@@ -0,0 +1,118 @@
+import type { MockFunction, Mocked, Token } from "../types";
+import { InjectionToken } from "../core/injection-token";
+
+/** Conjunto de mocks criados por createMock() */
+const mocks = new WeakSet<object>();
+
+/** Propriedades que não são substituídas por funções stub */
+const PASSTHROUGH_KEYS = new Set<PropertyKey>([
+    "then",
+    "constructor",
+    "toJSON",
+]);
+
+/**
+ * Cria uma função stub que registra suas chamadas
+ * Sem implementação definida, retorna undefined
+ *
+ * @returns Nova função stub
+ * @template TArgs - Tipos dos argumentos
+ * @template TReturn - Tipo do retorno
+ *
+ * @example
+ * ```typescript
+ * const send = createMockFunction<[string], boolean>().mockReturnValue(true);
+ * send('hello');
+ * console.log(send.calls); // [['hello']]
+ * ```
+ */
+export function createMockFunction<
+    TArgs extends any[] = any[],
+    TReturn = any,
+>(): MockFunction<TArgs, TReturn> {
+    let implementation: ((...args: TArgs) => TReturn) | undefined;
+    const calls: TArgs[] = [];
+
+    const mock = ((...args: TArgs) => {
+        calls.push(args);
+        return implementation?.(...args) as TReturn;
+    }) as MockFunction<TArgs, TReturn>;
+
+    Object.defineProperty(mock, "calls", { value: calls });
+    mock.mockReturnValue = (value) => {
+        implementation = () => value;
+        return mock;
+    };
+    mock.mockImplementation = (fn) => {
+        implementation = fn;
+        return mock;
+    };
+    mock.mockClear = () => {
+        calls.length = 0;
+        return mock;
+    };
+    return mock;
+}
+
+/**
+ * Cria um mock que registra chamadas a qualquer método acessado
+ * Propriedades atribuídas ao mock são preservadas; quando o token é uma classe,
+ * o mock passa em verificações `instanceof`
+ *
+ * @param token - Token ou classe sendo simulada (usado em instanceof e descrições)
+ * @returns Mock do tipo informado
+ * @template T - Tipo simulado
+ *
+ * @example
+ * ```typescript
+ * const repository = createMock<UserRepository>(UserRepository);
+ * repository.findById.mockReturnValue({ id: 1 });
+ *
+ * service.getUser(1);
+ * console.log(repository.findById.calls); // [[1]]
+ * ```
+ */
+export function createMock<T = any>(token?: Token<T>): Mocked<T> {
+    const prototype =
+        typeof token === "function" ? token.prototype : Object.prototype;
+    const description =
+        typeof token === "function"
+            ? token.name
+            : token instanceof InjectionToken
+              ? token.toString()
+              : String(token ?? "anonymous");
+    const members = new Map<PropertyKey, unknown>();
+
+    const mock = new Proxy(Object.create(prototype), {
+        get(target, key) {
+            if (members.has(key)) return members.get(key);
+            // Symbols e membros usados pelo runtime mantêm o comportamento padrão
+            // (o mock não é thenable e preserva o constructor da classe)
+            if (typeof key === "symbol" || PASSTHROUGH_KEYS.has(key)) {
+                return Reflect.get(target, key);
+            }
+            if (key === "toString") return () => `Mock(${description})`;
+
+            const member = createMockFunction();
+            members.set(key, member);
+            return member;
+        },
+        set(_, key, value) {
+            members.set(key, value);
+            return true;
+        },
+        has: (target, key) => members.has(key) || Reflect.has(target, key),
+    });
+
+    mocks.add(mock);
+    return mock;
+}
+
+/**
+ * Verifica se um valor é um mock criado por createMock()
+ * @param value - Valor a ser verificado
+ * @returns true se for um mock
+ */
+export function isMock(value: unknown): boolean {
+    return typeof value === "object" && value !== null && mocks.has(value);
+}
@@ -0,0 +1,255 @@
+import type {
+    Constructor,
+    Mocked,
+    OverrideProviderBuilder,
+    Provider,
+    TestingModuleMetadata,
+    Token,
+} from "../types";
+import { registerCacheProviders } from "../core/cache";
+import { Container } from "../core/container";
+import { captureLifecycleState } from "../core/life-cycle";
+import { metadataRegistry } from "../core/metadata-registry";
+import { getComponentScope, registerDeclaredProvider } from "../core/providers";
+import { createMock, isMock } from "./mock";
+
+/**
+ * Módulo de testes compilado: um container isolado com os provedores do teste
+ * Nada é registrado no GlobalContainer; ao fechar o módulo, os componentes recebem
+ * onDestroy e o registry de ciclo de vida volta ao estado anterior à compilação
+ *
+ * @example
+ * ```typescript
+ * const module = await createTestingModule({ providers: [UserService] }).compile();
+ * const service = module.get(UserService);
+ * await module.close();
+ * ```
+ */
+export class TestingModule {
+    /** Indica se o módulo já foi fechado */
+    private closed = false;
+
+    /**
+     * @param container - Container isolado do teste
+     * @param restore - Restaura o registry de ciclo de vida
+     */
+    constructor(
+        readonly container: Container,
+        private readonly restore: () => void
+    ) {}
+
+    /**
+     * Resolve uma dependência do container do teste
+     * @param token - Token da dependência
+     * @returns Instância da dependência
+     */
+    get<T>(token: Token<T>): T {
+        return this.container.resolve(token);
+    }
+
+    /**
+     * Resolve uma dependência aguardando provedores assíncronos
+     * @param token - Token da dependência
+     * @returns Promise com a instância da dependência
+     */
+    resolveAsync<T>(token: Token<T>): Promise<T> {
+        return this.container.resolveAsync(token);
+    }
+
+    /**
+     * Resolve todos os provedores de um token (multi-provedores)
+     * @param token - Token dos provedores
+     * @returns Array de instâncias
+     */
+    resolveAll<T>(token: Token<T>): T[] {
+        return this.container.resolveAll(token);
+    }
+
+    /**
+     * Obtém o mock injetado para um token
+     * @param token - Token simulado
+     * @returns Mock com o histórico de chamadas
+     * @throws Error quando o token não foi resolvido para um mock
+     *
+     * @example
+     * ```typescript
+     * const repository = module.getMock(UserRepository);
+     * repository.findById.mockReturnValue({ id: 1 });
+     * ```
+     */
+    getMock<T>(token: Token<T>): Mocked<T> {
+        const instance = this.get(token);
+        if (!isMock(instance)) {
+            throw new Error(
+                `${
+                    typeof token === "function" ? token.name : String(token)
+                } não é um mock. Use autoMock: true ou overrideProvider(token).useValue(createMock(token))`
+            );
+        }
+        return instance as Mocked<T>;
+    }
+
+    /**
+     * Fecha o módulo: executa onDestroy, descarta o container e
+     * restaura o registry de ciclo de vida
+     */
+    async close(): Promise<void> {
+        if (this.closed) return;
+        this.closed = true;
+
+        try {
+            await this.container.dispose();
+        } finally {
+            this.restore();
+        }
+    }
+}
+
+/**
+ * Construtor de módulos de testes, obtido com createTestingModule()
+ * Permite substituir provedores antes da compilação
+ */
+export class TestingModuleBuilder {
+    /** Provedores substituídos com overrideProvider() */
+    private readonly overrides = new Map<Token, Provider>();
+
+    /**
+     * @param metadata - Definição do módulo de testes
+     */
+    constructor(private readonly metadata: TestingModuleMetadata) {}
+
+    /**
+     * Substitui o provedor de um token (listado ou não nos providers)
+     * @param token - Token a ser substituído
+     * @returns Opções de substituição
+     *
+     * @example
+     * ```typescript
+     * createTestingModule({ providers: [UserService] })
+     *   .overrideProvider(UserRepository)
+     *   .useValue({ findById: () => ({ id: 1 }) });
+     * ```
+     */
+    overrideProvider<T>(token: Token<T>): OverrideProviderBuilder<T> {
+        const override = (provider: Provider<T>) => {
+            this.overrides.set(token, provider);
+            return this;
+        };
+
+        return {
+            useValue: (useValue) => override({ useValue }),
+            useClass: (useClass) =>
+                override({ useClass, scope: getComponentScope(useClass) }),
+            useFactory: (useFactory, inject) =>
+                override({ useFactory, inject }),
+        };
+    }
+
+    /**
+     * Cria o container isolado, registra os provedores, instancia os singletons
+     * listados e executa seus hooks onInit
+     * @returns Módulo de testes compilado
+     */
+    async compile(): Promise<TestingModule> {
+        const restoreLifecycle = captureLifecycleState();
+
+        // Implementações de tokens são procuradas apenas entre as classes do teste,
+        // e não entre as decoradas por outros arquivos de teste
+        const services = new Set<Constructor>(
+            [
+                ...(this.metadata.providers ?? []),
+                ...Array.from(this.overrides.values(), (provider) =>
+                    "useClass" in provider ? provider.useClass : undefined
+                ),
+            ].filter(
+                (provider): provider is Constructor =>
+                    typeof provider === "function" &&
+                    metadataRegistry.services.has(provider)
+            )
+        );
+
+        const container = new Container(undefined, {
+            autoRegister: this.metadata.autoRegister ?? false,
+            services,
+            fallbackProvider: this.metadata.autoMock
+                ? (token) => ({ useValue: createMock(token) })
+                : undefined,
+        });
+        const module = new TestingModule(container, restoreLifecycle);
+
+        try {
+            const eager = new Map<Token, Provider>();
+            for (const provider of this.metadata.providers ?? []) {
+                for (const [token, definition] of registerDeclaredProvider(
+                    container,
+                    provider
+                )) {
+                    eager.set(token, definition);
+                }
+            }
+            for (const [token, provider] of this.overrides) {
+                container.register(token, provider);
+                eager.set(token, provider);
+            }
+            registerCacheProviders(container);
+
+            // Instancia os singletons; o container executa onInit de cada instância criada
+            for (const [token, provider] of eager) {
+                if (
+                    provider.multi ||
+                    (provider.scope ?? "singleton") !== "singleton"
+                ) {
+                    continue;
+                }
+                await container.resolveAsync(token);
+            }
+            await container.whenInitialized();
+        } catch (error) {
+            await module.close();
+            throw error;
+        }
+
+        return module;
+    }
+}
+
+/**
+ * Cria um módulo de testes com um container isolado
+ * Apenas os provedores listados são registrados (classes decoradas não listadas
+ * não são auto-registradas, a menos que `autoRegister` seja true). Implementações
+ * de tokens de abstração são procuradas apenas entre as classes listadas ou
+ * auto-registradas pelo teste: classes decoradas por outros arquivos de teste no
+ * metadataRegistry global não interferem. Os componentes de cache são
+ * registrados como no scanner, com o LruCacheStore apenas se o teste não
+ * fornecer um CACHE_STORE. Com `autoMock`,
+ * toda dependência sem provedor recebe um mock que registra as chamadas
+ *
+ * @param metadata - Definição do módulo de testes
+ * @returns Construtor do módulo, que permite substituir provedores antes de compilar
+ *
+ * @example
+ * ```typescript
+ * import { createTestingModule } from '@injektor/infuse/testing';
+ *
+ * let module: TestingModule;
+ *
+ * beforeEach(async () => {
+ *   module = await createTestingModule({ providers: [UserService], autoMock: true })
+ *     .overrideProvider(CONFIG)
+ *     .useValue({ retries: 1 })
+ *     .compile();
+ * });
+ *
+ * afterEach(() => module.close());
+ *
+ * test('busca o usuário no repositório', () => {
+ *   module.getMock(UserRepository).findById.mockReturnValue({ id: 1 });
+ *   expect(module.get(UserService).getUser(1)).toEqual({ id: 1 });
+ * });
+ * ```
+ */
+export function createTestingModule(
+    metadata: TestingModuleMetadata = {}
+): TestingModuleBuilder {
+    return new TestingModuleBuilder(metadata);
+}
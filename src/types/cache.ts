@@ -0,0 +1,122 @@
+/**
+ * Entrada encontrada em um CacheStore
+ * O envelope permite distinguir um valor `undefined` em cache de uma ausência
+ */
+export interface CacheHit {
+    /** Valor armazenado */
+    value: unknown;
+}
+
+/**
+ * Armazenamento usado por @Cacheable e @CacheEvict
+ * Registre uma implementação sob o token CACHE_STORE para substituir o LRU em
+ * memória padrão. Implementações assíncronas (ex.: Redis) devem ser usadas
+ * apenas em métodos assíncronos
+ *
+ * @example
+ * ```typescript
+ * @Service({ provide: CACHE_STORE })
+ * class RedisCacheStore implements CacheStore {
+ *   async get(key: string) {
+ *     const raw = await redis.get(key);
+ *     return raw === null ? undefined : { value: JSON.parse(raw) };
+ *   }
+ *   // ...
+ * }
+ * ```
+ */
+export interface CacheStore {
+    /**
+     * Obtém uma entrada
+     * @param key - Chave da entrada
+     * @returns A entrada ou undefined se ausente ou expirada
+     */
+    get(key: string): CacheHit | undefined | Promise<CacheHit | undefined>;
+    /**
+     * Armazena um valor
+     * @param key - Chave da entrada
+     * @param value - Valor a ser armazenado
+     * @param ttl - Tempo de vida em ms (opcional)
+     */
+    set(key: string, value: unknown, ttl?: number): void | Promise<void>;
+    /**
+     * Remove uma entrada
+     * @param key - Chave da entrada
+     */
+    delete(key: string): void | Promise<void>;
+    /**
+     * Remove todas as entradas, ou apenas as que começam com o prefixo
+     * @param prefix - Prefixo das chaves (opcional)
+     */
+    clear(prefix?: string): void | Promise<void>;
+}
+
+/**
+ * Opções do LruCacheStore, registradas sob o token CACHE_OPTIONS
+ */
+export interface LruCacheOptions {
+    /** Número máximo de entradas; as menos usadas são descartadas (padrão: 1000) */
+    maxEntries?: number;
+    /** Tempo de vida padrão, em ms, para entradas sem ttl (padrão: sem expiração) */
+    ttl?: number;
+}
+
+/**
+ * Gera a chave de cache a partir dos argumentos do método
+ * Valores que não são strings são serializados com JSON.stringify
+ */
+export type CacheKeyResolver = (...args: any[]) => unknown;
+
+/**
+ * Opções do decorator @Cacheable
+ */
+export interface CacheableOptions {
+    /** Nome do cache, usado por @CacheEvict (padrão: "Classe.metodo") */
+    name?: string;
+    /** Gera a chave a partir dos argumentos (padrão: JSON dos argumentos) */
+    key?: CacheKeyResolver;
+    /** Tempo de vida das entradas em ms (padrão: o do CacheStore) */
+    ttl?: number;
+    /**
+     * Onde os valores são armazenados: "shared" usa o CACHE_STORE; "request"
+     * mantém um cache por escopo de requisição, descartado ao final dele
+     * (padrão: "shared")
+     */
+    scope?: "shared" | "request";
+}
+
+/**
+ * Opções do decorator @CacheEvict
+ */
+export interface CacheEvictOptions {
+    /** Nome do cache a ser invalidado */
+    name: string;
+    /** Gera a chave invalidada a partir dos argumentos (padrão: JSON dos argumentos) */
+    key?: CacheKeyResolver;
+    /** Remove todas as entradas do cache (padrão: false) */
+    allEntries?: boolean;
+    /** Invalida antes da chamada, mesmo que o método falhe (padrão: false) */
+    beforeInvocation?: boolean;
+}
+
+/**
+ * Contadores de uso de um cache
+ */
+export interface CacheCounters {
+    /** Chamadas respondidas pelo cache */
+    hits: number;
+    /** Chamadas que executaram o método */
+    misses: number;
+    /** Invalidações feitas por @CacheEvict */
+    evictions: number;
+}
+
+/**
+ * Estatísticas dos caches de métodos, expostas em Container.getStats()
+ */
+export interface CacheStats extends CacheCounters {
+    /** Proporção de hits entre as consultas (0 a 1) */
+    hitRate: number;
+    /** Contadores por nome de cache */
+    caches: Record<string, CacheCounters>;
+}
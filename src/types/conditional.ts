@@ -0,0 +1,33 @@
+import type { Token } from "./container";
+
+/**
+ * Informações disponíveis para avaliar condições de registro
+ */
+export interface ConditionContext {
+    /** Perfis ativos no container */
+    profiles: readonly string[];
+    /** Variáveis de ambiente do processo */
+    env: Record<string, string | undefined>;
+    /** Verifica se o container (ou um ancestral) possui provedor para o token */
+    has(token: Token): boolean;
+}
+
+/**
+ * Condição para que um componente seja registrado no container
+ * Definida por decorators como @Profile e @ConditionalOnEnv
+ */
+export interface ComponentCondition {
+    /** Descrição exibida em logs e mensagens de erro (ex.: "@Profile('dev')") */
+    description: string;
+    /**
+     * Se true, a condição é avaliada depois que os componentes sem condições
+     * adiadas foram registrados (ex.: @ConditionalOnMissingProvider)
+     */
+    deferred?: boolean;
+    /**
+     * Avalia a condição
+     * @param context - Informações do container e do ambiente
+     * @returns true se o componente deve ser registrado
+     */
+    matches(context: ConditionContext): boolean;
+}
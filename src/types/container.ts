@@ -1,9 +1,180 @@
+import type { ForwardRef } from "../core/forward-ref";
+import type { InjectionToken } from "../core/injection-token";
+import type { ModuleImport } from "./module";
+import type { InfusePlugin } from "./plugin";
+
 /**
  * Tipo genérico para construtores de classes
  * @template T - O tipo da instância que o construtor criará
  */
 export type Constructor<T = any> = new (...args: any[]) => T;
 
+/**
+ * Tipo genérico para classes abstratas, usadas como tokens de abstrações
+ * @template T - O tipo da instância das implementações
+ */
+export type AbstractConstructor<T = any> = abstract new (...args: any[]) => T;
+
+/**
+ * Token que identifica uma dependência no container
+ * Pode ser uma classe (concreta ou abstrata), um InjectionToken tipado, uma string ou um symbol
+ * @template T - O tipo da instância associada ao token
+ */
+export type Token<T = any> =
+    | Constructor<T>
+    | AbstractConstructor<T>
+    | InjectionToken<T>
+    | string
+    | symbol;
+
+/**
+ * Token aceito em pontos de injeção: um token comum ou uma referência
+ * adiada criada por forwardRef(), avaliada apenas no momento da resolução
+ * @template T - O tipo da instância associada ao token
+ */
+export type InjectableToken<T = any> = Token<T> | ForwardRef<T>;
+
+/** Marcador usado apenas para diferenciar o tipo Lazy<T> */
+declare const LAZY_MARKER: unique symbol;
+
+/**
+ * Tipo de uma dependência injetada de forma lazy (proxy resolvido no primeiro acesso)
+ * Por ser uma interseção, o TypeScript emite Object nos metadados do parâmetro,
+ * evitando referências a classes ainda não inicializadas
+ * @template T - O tipo da instância injetada
+ */
+export type Lazy<T> = T & { readonly [LAZY_MARKER]?: never };
+
+/**
+ * Metadados de um ponto de injeção (parâmetro de construtor)
+ * Definidos por decorators como @Inject e lidos pelo container
+ */
+export interface InjectionMetadata {
+    /** Token que será resolvido para o ponto de injeção */
+    token: InjectableToken;
+    /** Se true, injeta o valor padrão quando o token não pode ser resolvido */
+    optional?: boolean;
+    /** Valor injetado quando a dependência opcional não está disponível */
+    defaultValue?: unknown;
+    /** Se true, injeta um array com as instâncias de todos os provedores do token */
+    multi?: boolean;
+    /** Se true, a dependência só é resolvida no primeiro acesso */
+    lazy?: boolean;
+    /** Qualificador que seleciona uma implementação específica do token (@Named) */
+    qualifier?: string;
+}
+
+/**
+ * Opções do decorator @Inject
+ */
+export interface InjectOptions {
+    /** Injeta um proxy que resolve a dependência no primeiro acesso (padrão: false) */
+    lazy?: boolean;
+    /** Seleciona a implementação declarada com @Named(qualifier) */
+    qualifier?: string;
+}
+
+/**
+ * Marcação de dependência opcional definida pelo decorator @Optional
+ */
+export interface OptionalMetadata {
+    /** Valor injetado quando a dependência não está disponível */
+    defaultValue?: unknown;
+}
+
+/**
+ * Metadados de um ponto de injeção em propriedade ou setter
+ * Definidos por decorators como @Autowired e @Value
+ */
+export interface PropertyInjectionMetadata extends InjectionMetadata {
+    /** Nome da propriedade (ou setter) que receberá a dependência */
+    propertyKey: string | symbol;
+}
+
+/**
+ * Opções do decorator @Autowired
+ */
+export interface AutowiredOptions {
+    /** Token a ser resolvido (padrão: tipo refletido da propriedade) */
+    token?: InjectableToken;
+    /** Resolve a dependência apenas no primeiro acesso (padrão: false) */
+    lazy?: boolean;
+    /** Injeta um array com todos os provedores do token (padrão: false) */
+    multi?: boolean;
+    /** Seleciona a implementação declarada com @Named(qualifier) */
+    qualifier?: string;
+}
+
+/**
+ * Opções de criação de um container
+ */
+export interface ContainerOptions {
+    /** Auto-registra classes decoradas (@Service, @Controller, ...) ainda não registradas (padrão: true) */
+    autoRegister?: boolean;
+    /** Fornece um provedor para tokens sem provedor registrado, como mocks em testes */
+    fallbackProvider?: (token: Token) => Provider | undefined;
+    /** Perfis ativos, usados por @Profile (padrão: herdados do pai, variável INFUSE_PROFILES ou ["default"]) */
+    profiles?: string[];
+    /** Tempo máximo, em ms, para cada onInit assíncrono (padrão: herdado do pai ou 30000; 0 desabilita) */
+    initTimeout?: number;
+    /** Coleta métricas de construção por token e escopo (padrão: false) */
+    metrics?: boolean;
+    /** Expiração e avisos de escopos de requisição esquecidos */
+    requestScope?: RequestScopePolicy;
+    /**
+     * Resolve apenas os provedores registrados ou herdados: classes decoradas
+     * não são auto-registradas, e injetá-las falha com um erro que pede sua
+     * declaração em um @Module. Tokens com factory padrão são registrados no
+     * container raiz (padrão: false; usado pelos containers de módulos)
+     */
+    declaredOnly?: boolean;
+    /**
+     * Serviços considerados ao procurar implementações de tokens de abstração e
+     * qualificadores; classes auto-registradas são adicionadas ao conjunto
+     * (padrão: todos os @Service do metadataRegistry; usado pelos módulos de testes)
+     */
+    services?: Set<Constructor>;
+}
+
+/**
+ * Política de proteção contra vazamento de escopos de requisição
+ * Escopos em execução por runInScope() nunca expiram, apenas geram avisos
+ */
+export interface RequestScopePolicy {
+    /** Idade, em ms, a partir da qual um escopo inativo é descartado (padrão: 300000; 0 desabilita) */
+    ttl?: number;
+    /** Idade, em ms, a partir da qual um aviso é emitido para o escopo (padrão: 60000; 0 desabilita) */
+    warnAfter?: number;
+}
+
+/**
+ * Escopo de requisição listado por Container.getLeakReport()
+ */
+export interface RequestScopeReport {
+    /** ID do escopo */
+    requestId: string;
+    /** Idade do escopo em ms */
+    age: number;
+    /** Tokens com instâncias em cache no escopo */
+    tokens: string[];
+    /** Se o escopo está em execução por runInScope() */
+    active: boolean;
+    /** Se o ID foi gerado por uma resolução fora de qualquer escopo */
+    generated: boolean;
+}
+
+/**
+ * Relatório de escopos de requisição de longa duração
+ */
+export interface LeakReport {
+    /** Política em vigor */
+    policy: Required<RequestScopePolicy>;
+    /** Escopos com a idade mínima do relatório, do mais antigo ao mais recente */
+    scopes: RequestScopeReport[];
+    /** Número de escopos descartados por expiração desde a criação do container */
+    evicted: number;
+}
+
 /**
  * Opções de ciclo de vida disponíveis para componentes
  * - singleton: Uma única instância compartilhada em toda a aplicação
@@ -12,11 +183,21 @@ export type Constructor<T = any> = new (...args: any[]) => T;
  */
 export type LifeCycleOpt = "singleton" | "transient" | "request";
 
+/**
+ * Opções de inicialização (onInit) comuns a todos os escopos
+ */
+export interface LifeCycleInitOptions {
+    /** Tempo máximo, em ms, para a conclusão do onInit assíncrono (padrão: timeout do container; 0 desabilita) */
+    initTimeout?: number;
+    /** Se false, uma falha no onInit é reportada sem abortar o bootstrap (padrão: true) */
+    initRequired?: boolean;
+}
+
 /**
  * Configuração de ciclo de vida para componentes singleton
  * Instância única compartilhada em toda a aplicação
  */
-export interface LifeCycleSingleton {
+export interface LifeCycleSingleton extends LifeCycleInitOptions {
     scope: "singleton";
     /** Instância única compartilhada em toda a aplicação */
 }
@@ -25,7 +206,7 @@ export interface LifeCycleSingleton {
  * Configuração de ciclo de vida para componentes transient
  * Nova instância criada a cada resolução
  */
-export interface LifeCycleTransient {
+export interface LifeCycleTransient extends LifeCycleInitOptions {
     scope: "transient";
     /** Nova instância a cada resolução */
 }
@@ -34,7 +215,7 @@ export interface LifeCycleTransient {
  * Configuração de ciclo de vida para componentes request-scoped
  * Uma instância por requisição HTTP
  */
-export interface LifeCycleRequest {
+export interface LifeCycleRequest extends LifeCycleInitOptions {
     scope: "request";
     /** Uma instância por requisição HTTP */
 }
@@ -59,10 +240,16 @@ export interface Provider<T = any> {
     useClass?: Constructor<T>;
     /** Valor pré-existente a ser retornado */
     useValue?: T;
-    /** Função factory para criar a instância */
-    useFactory?: (...args: any[]) => T;
+    /** Função factory para criar a instância (pode retornar uma Promise, ver resolveAsync) */
+    useFactory?: (...args: any[]) => T | Promise<T>;
+    /** Tokens resolvidos e passados como argumentos para a factory, na ordem declarada */
+    inject?: InjectableToken[];
+    /** Token de outro provedor do qual este é um alias */
+    useExisting?: Token<T>;
     /** Escopo do ciclo de vida da instância */
     scope?: LifeCycleOpt;
+    /** Se true, o provedor é acumulado junto aos demais do mesmo token em vez de substituí-los */
+    multi?: boolean;
 }
 
 /**
@@ -72,7 +259,7 @@ export type BeanDefinition = {
     /** Nome do método que cria o bean */
     methodName: string;
     /** Token usado para identificar o bean no container */
-    token: string | symbol | Constructor;
+    token: Token;
 };
 
 /**
@@ -83,6 +270,20 @@ export interface ServiceOptions {
     scope?: LifeCycleOpt;
     /** Configuração completa do ciclo de vida */
     lifecycle?: LifeCycleConfig;
+    /** Token adicional (classe abstrata, string ou symbol) sob o qual o serviço é registrado */
+    provide?: Token;
+    /** Se true, o serviço é registrado sob `provide` como multi-provedor */
+    multi?: boolean;
+}
+
+/**
+ * Vínculo de um serviço a um token de abstração, definido via @Service({ provide })
+ */
+export interface ServiceBinding {
+    /** Token da abstração */
+    provide: Token;
+    /** Se true, o vínculo é registrado como multi-provedor */
+    multi: boolean;
 }
 
 /**
@@ -103,4 +304,14 @@ export interface ApplicationOptions {
     port?: number;
     /** Adapter HTTP a ser usado (padrão: "fastify") */
     adapter?: "fastify" | "express";
+    /** Valida o container no bootstrap e aborta se houver problemas (padrão: false) */
+    strict?: boolean;
+    /** Perfis ativos, usados por @Profile (padrão: variável INFUSE_PROFILES ou ["default"]) */
+    profiles?: string[];
+    /** Tempo máximo, em ms, para cada onInit assíncrono no bootstrap (padrão: 30000; 0 desabilita) */
+    initTimeout?: number;
+    /** Módulo raiz (@Module ou dinâmico): o bootstrap constrói os módulos em vez de escanear diretórios */
+    module?: ModuleImport;
+    /** Plugins executados nas fases do bootstrap, na ordem informada */
+    plugins?: InfusePlugin[];
 }
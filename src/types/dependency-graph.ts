@@ -0,0 +1,74 @@
+import type { LifeCycleOpt, Token } from "./container";
+
+/**
+ * Tipo de provedor de um nó do grafo
+ * - class: useClass
+ * - value: useValue
+ * - factory: useFactory
+ * - alias: useExisting
+ * - missing: token referenciado por uma dependência mas sem provedor
+ */
+export type DependencyGraphNodeKind =
+    "class" | "value" | "factory" | "alias" | "missing";
+
+/**
+ * Estereótipo de um componente, conforme o decorator usado na classe
+ */
+export type Stereotype =
+    "service" | "controller" | "processor" | "configuration" | "application";
+
+/**
+ * Nó do grafo de dependências (um provedor registrado)
+ */
+export interface DependencyGraphNode {
+    /** Identificador único do nó no grafo */
+    id: string;
+    /** Token do provedor (undefined para referências a classes não inicializadas) */
+    token: Token | undefined;
+    /** Nome legível do token */
+    name: string;
+    /** Tipo do provedor */
+    kind: DependencyGraphNodeKind;
+    /** Escopo do ciclo de vida (ausente em nós missing) */
+    scope?: LifeCycleOpt;
+    /** Estereótipo da classe implementadora, se houver */
+    stereotype?: Stereotype;
+    /** Nome da implementação quando difere do token (useClass/useExisting) */
+    implementation?: string;
+    /** Se true, o nó é um dos multi-provedores do token */
+    multi: boolean;
+    /** Se true, o provedor pertence a um container ancestral */
+    inherited: boolean;
+    /** Número de dependências diretas do nó */
+    dependencies: number;
+    /** Número de nós que dependem diretamente deste */
+    dependents: number;
+}
+
+/**
+ * Aresta do grafo de dependências (from depende de to)
+ */
+export interface DependencyGraphEdge {
+    /** ID do nó dependente */
+    from: string;
+    /** ID do nó da dependência */
+    to: string;
+    /** Propriedade que recebe a dependência (ausente em parâmetros do construtor) */
+    propertyKey?: string | symbol;
+    /** Se true, a dependência é opcional */
+    optional: boolean;
+    /** Se true, a dependência é resolvida apenas no primeiro acesso */
+    lazy: boolean;
+    /** Se true, a dependência injeta todos os multi-provedores do token */
+    multi: boolean;
+}
+
+/**
+ * Grafo de dependências de um container
+ */
+export interface DependencyGraph {
+    /** Provedores registrados e tokens referenciados */
+    nodes: DependencyGraphNode[];
+    /** Dependências entre os nós */
+    edges: DependencyGraphEdge[];
+}
@@ -1,4 +1,13 @@
+export * from "./cache";
+export * from "./conditional";
 export * from "./container";
+export * from "./dependency-graph";
 export * from "./http";
+export * from "./interceptor";
 export * from "./metadata-registry";
+export * from "./observer";
+export * from "./plugin";
 export * from "./loader";
+export * from "./module";
+export * from "./testing";
+export * from "./validation";
@@ -0,0 +1,94 @@
+import type { Constructor } from "./container";
+
+/**
+ * Informações de uma chamada interceptada, compartilhadas por todos os
+ * interceptadores da cadeia
+ * @template T - Tipo da instância interceptada
+ */
+export interface InvocationContext<T = any> {
+    /** Instância cujo método foi chamado */
+    readonly target: T;
+    /** Classe da instância */
+    readonly targetClass: Constructor<T>;
+    /** Nome do método chamado */
+    readonly methodName: string | symbol;
+    /** ID do escopo de requisição da chamada (undefined fora de um escopo) */
+    readonly requestId?: string;
+    /** Argumentos da chamada (podem ser substituídos por @Before e @Around) */
+    args: unknown[];
+    /** Valor retornado pelo método (já resolvido em métodos assíncronos) */
+    result?: unknown;
+    /** Erro lançado (ou rejeição) do método */
+    error?: unknown;
+}
+
+/**
+ * Interceptador executado antes do método
+ * Retornar uma Promise adia a chamada até que ela seja resolvida
+ *
+ * @example
+ * ```typescript
+ * @Interceptor()
+ * class AuditInterceptor implements BeforeInterceptor {
+ *   before({ targetClass, methodName, args }: InvocationContext) {
+ *     console.log(`${targetClass.name}.${String(methodName)}`, args);
+ *   }
+ * }
+ * ```
+ */
+export interface BeforeInterceptor {
+    before(context: InvocationContext): void | Promise<void>;
+}
+
+/**
+ * Interceptador executado depois do método, com sucesso ou erro
+ * `context.result` pode ser substituído; um erro em `context.error` é relançado
+ *
+ * @example
+ * ```typescript
+ * @Interceptor()
+ * class ErrorLogInterceptor implements AfterInterceptor {
+ *   after({ methodName, error }: InvocationContext) {
+ *     if (error) console.error(`${String(methodName)} falhou`, error);
+ *   }
+ * }
+ * ```
+ */
+export interface AfterInterceptor {
+    after(context: InvocationContext): void | Promise<void>;
+}
+
+/**
+ * Interceptador que envolve o método: decide se e quando chamar `proceed()`
+ * e pode alterar argumentos, retorno e erros
+ *
+ * @example
+ * ```typescript
+ * @Interceptor()
+ * class TimingInterceptor implements AroundInterceptor {
+ *   async around(context: InvocationContext, proceed: () => unknown) {
+ *     const start = performance.now();
+ *     try {
+ *       return await proceed();
+ *     } finally {
+ *       console.log(`${String(context.methodName)}: ${performance.now() - start}ms`);
+ *     }
+ *   }
+ * }
+ * ```
+ */
+export interface AroundInterceptor {
+    around(context: InvocationContext, proceed: () => unknown): unknown;
+}
+
+/** Tipo de vínculo de um interceptador */
+export type InterceptorKind = "before" | "after" | "around";
+
+/**
+ * Vínculo de um interceptador a uma classe ou método, definido por
+ * @Before, @After e @Around
+ */
+export type InterceptorBinding =
+    | { kind: "before"; interceptor: Constructor<BeforeInterceptor> }
+    | { kind: "after"; interceptor: Constructor<AfterInterceptor> }
+    | { kind: "around"; interceptor: Constructor<AroundInterceptor> };
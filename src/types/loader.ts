@@ -7,3 +7,15 @@ export type LoaderOptions = {
     /** Array de expressões regulares para ignorar arquivos específicos */
     ignore?: RegExp[];
 };
+
+/**
+ * Opções do escaneamento e registro de componentes
+ */
+export type ScanOptions = {
+    /** Se verdadeiro, valida o container e falha quando houver problemas de configuração */
+    strict?: boolean;
+    /** Perfis ativos, usados por @Profile (padrão: variável INFUSE_PROFILES ou ["default"]) */
+    profiles?: string[];
+    /** Tempo máximo, em ms, para cada onInit assíncrono (padrão: 30000; 0 desabilita) */
+    initTimeout?: number;
+};
@@ -0,0 +1,86 @@
+import type {
+    Constructor,
+    InjectableToken,
+    Provider,
+    Token,
+} from "./container";
+
+/**
+ * Provedor declarado por um módulo
+ * Classes decoradas são registradas com o escopo declarado no decorator;
+ * objetos informam o token em `provide`
+ */
+export type ModuleProvider = Constructor | (Provider & { provide: Token });
+
+/**
+ * Definição de um módulo, informada em @Module
+ * Cada módulo tem seu próprio container: provedores não exportados são
+ * privados e só podem ser injetados pelos componentes do próprio módulo
+ */
+export interface ModuleMetadata {
+    /** Módulos cujos exports ficam disponíveis para este módulo */
+    imports?: ModuleImport[];
+    /** Provedores registrados no container do módulo */
+    providers?: ModuleProvider[];
+    /** Controladores do módulo, resolvidos no container do módulo */
+    controllers?: Constructor[];
+    /**
+     * Tokens disponibilizados para os módulos que importam este: provedores
+     * próprios, tokens importados ou módulos importados (reexportados por inteiro)
+     */
+    exports?: Token[];
+    /** Disponibiliza os exports para toda a aplicação, sem imports (padrão: false) */
+    global?: boolean;
+}
+
+/**
+ * Módulo configurado na importação, retornado por métodos estáticos como
+ * `forRoot(options)` e `forFeature(...)`
+ * Os campos são combinados com a definição de @Module da classe (se houver);
+ * cada objeto importado gera uma instância do módulo, com seu próprio container
+ *
+ * @example
+ * ```typescript
+ * @Module({ providers: [HttpClient], exports: [HttpClient] })
+ * class HttpClientModule {
+ *   static forRoot(options: HttpClientOptions): DynamicModule {
+ *     return {
+ *       module: HttpClientModule,
+ *       providers: [{ provide: HTTP_CLIENT_OPTIONS, useValue: options }],
+ *     };
+ *   }
+ * }
+ * ```
+ */
+export interface DynamicModule extends ModuleMetadata {
+    /** Classe do módulo */
+    module: Constructor;
+}
+
+/**
+ * Módulo aceito em `imports`: a classe decorada com @Module ou um módulo dinâmico
+ */
+export type ModuleImport = Constructor | DynamicModule;
+
+/**
+ * Opções de um `forRootAsync()`: as opções do módulo são criadas por uma
+ * factory (síncrona ou assíncrona) que recebe dependências do container
+ * @template T - Tipo das opções do módulo
+ *
+ * @example
+ * ```typescript
+ * HttpClientModule.forRootAsync({
+ *   imports: [ConfigModule],
+ *   useFactory: (config: ConfigService) => ({ baseUrl: config.get('API_URL') }),
+ *   inject: [ConfigService],
+ * });
+ * ```
+ */
+export interface ModuleAsyncOptions<T> {
+    /** Módulos cujos exports são necessários para a factory */
+    imports?: ModuleImport[];
+    /** Cria as opções do módulo */
+    useFactory: (...args: any[]) => T | Promise<T>;
+    /** Tokens resolvidos e passados como argumentos para a factory, na ordem declarada */
+    inject?: InjectableToken[];
+}
@@ -0,0 +1,86 @@
+import type { LifeCycleOpt, Provider, Token } from "./container";
+
+/**
+ * Evento emitido quando um provedor é registrado no container
+ */
+export interface RegisterEvent {
+    /** Token registrado */
+    token: Token;
+    /** Provedor associado ao token */
+    provider: Provider;
+}
+
+/**
+ * Evento emitido antes de cada resolução de um token
+ */
+export interface BeforeResolveEvent {
+    /** Token sendo resolvido */
+    token: Token;
+    /** ID do escopo de requisição da resolução */
+    requestId?: string;
+}
+
+/**
+ * Evento emitido quando o container cria uma instância (useClass ou useFactory)
+ */
+export interface InstantiateEvent {
+    /** Token cuja instância foi criada */
+    token: Token;
+    /** Escopo do provedor */
+    scope: LifeCycleOpt;
+    /** Instância criada (em factories assíncronas, o valor resolvido) */
+    instance: unknown;
+    /** Tempo de construção em ms, incluindo as dependências criadas no processo */
+    duration: number;
+    /** ID do escopo de requisição da criação */
+    requestId?: string;
+}
+
+/**
+ * Evento emitido quando a resolução de um token falha
+ */
+export interface ResolveErrorEvent {
+    /** Token cuja resolução falhou */
+    token: Token;
+    /** Erro lançado */
+    error: unknown;
+    /** ID do escopo de requisição da resolução */
+    requestId?: string;
+}
+
+/**
+ * Eventos observáveis do container, indexados pelo nome
+ */
+export interface ContainerEventMap {
+    register: RegisterEvent;
+    beforeResolve: BeforeResolveEvent;
+    instantiate: InstantiateEvent;
+    resolveError: ResolveErrorEvent;
+}
+
+/**
+ * Observador de um evento do container
+ * Erros lançados pelo observador são registrados e não interrompem a resolução
+ */
+export type ContainerEventListener<E> = (event: E) => void;
+
+/**
+ * Métricas de construção de um token em um escopo, coletadas com
+ * `new Container(undefined, { metrics: true })` ou container.enableMetrics()
+ */
+export interface ConstructionMetrics {
+    /** Nome do token */
+    token: string;
+    /** Escopo do provedor */
+    scope: LifeCycleOpt;
+    /** Número de instâncias criadas */
+    instantiations: number;
+    /** Tempo acumulado de construção em ms, incluindo as dependências criadas no processo */
+    totalTime: number;
+    /** Tempo acumulado em ms gasto apenas no próprio construtor ou factory */
+    ownTime: number;
+    /** Tempo médio de construção em ms (ownTime / instantiations) */
+    averageTime: number;
+    /** Maior tempo de uma única construção em ms (ownTime) */
+    maxTime: number;
+}
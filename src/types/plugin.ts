@@ -0,0 +1,72 @@
+import type { Container } from "../core/container";
+import type { metadataRegistry } from "../core/metadata-registry";
+import type { ApplicationOptions, Constructor } from "./container";
+import type { HttpAdapter } from "./http";
+import type { HttpRouteMetadata } from "./metadata-registry";
+
+/**
+ * Recursos da aplicação recebidos pelos hooks de um plugin
+ */
+export interface PluginContext {
+    /** Container da aplicação */
+    container: Container;
+    /** Registry de metadados dos componentes */
+    metadataRegistry: typeof metadataRegistry;
+    /** Adapter HTTP da aplicação */
+    adapter: HttpAdapter;
+    /** Opções da aplicação, definidas em @Application */
+    options: ApplicationOptions;
+}
+
+/**
+ * Rota HTTP registrada no adapter, recebida por onRouteRegistered
+ */
+export interface RegisteredRoute {
+    /** Método HTTP da rota */
+    method: HttpRouteMetadata["method"];
+    /** Caminho completo (prefixo do controlador + caminho da rota) */
+    path: string;
+    /** Controlador da rota */
+    controller: Constructor;
+    /** Nome do método handler */
+    handlerName: string;
+}
+
+/**
+ * Plugin que se integra às fases do bootstrap, registrado em
+ * `@Application({ plugins })`
+ * Os hooks são executados na ordem dos plugins (onShutdown, na ordem inversa)
+ * e podem ser assíncronos. Um erro em beforeScan, afterRegister,
+ * onRouteRegistered ou beforeListen aborta o bootstrap; erros em onShutdown
+ * são registrados e não interrompem os demais plugins
+ *
+ * @example
+ * ```typescript
+ * const metricsPlugin: InfusePlugin = {
+ *   name: 'metrics',
+ *   beforeScan: ({ container }) => container.enableMetrics(),
+ *   onRouteRegistered: (route) => routes.push(`${route.method} ${route.path}`),
+ *   beforeListen: ({ adapter, container }) => {
+ *     adapter.registerRoute('GET', '/metrics', () => container.getMetrics());
+ *   },
+ *   onShutdown: () => exporter.flush(),
+ * };
+ * ```
+ */
+export interface InfusePlugin {
+    /** Nome do plugin, usado nos logs e mensagens de erro */
+    name: string;
+    /** Antes de carregar e registrar os componentes */
+    beforeScan?(context: PluginContext): void | Promise<void>;
+    /** Depois que os componentes foram registrados e inicializados (onInit concluído) */
+    afterRegister?(context: PluginContext): void | Promise<void>;
+    /** Para cada rota HTTP registrada no adapter */
+    onRouteRegistered?(
+        route: RegisteredRoute,
+        context: PluginContext
+    ): void | Promise<void>;
+    /** Antes de o servidor HTTP começar a escutar */
+    beforeListen?(context: PluginContext): void | Promise<void>;
+    /** No shutdown() da aplicação ou quando o bootstrap é abortado */
+    onShutdown?(context: PluginContext): void | Promise<void>;
+}
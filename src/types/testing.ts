@@ -0,0 +1,64 @@
+import type { Constructor, Provider, Token } from "./container";
+import type { TestingModuleBuilder } from "../testing/testing-module";
+
+/**
+ * Provedor aceito por um módulo de testes
+ * Classes decoradas são registradas com o escopo declarado no decorator;
+ * objetos informam o token em `provide`
+ */
+export type TestProvider = Constructor | (Provider & { provide: Token });
+
+/**
+ * Definição de um módulo de testes
+ */
+export interface TestingModuleMetadata {
+    /** Provedores registrados no container isolado do teste */
+    providers?: TestProvider[];
+    /** Cria um mock para toda dependência sem provedor (padrão: false) */
+    autoMock?: boolean;
+    /** Auto-registra classes decoradas que não foram listadas (padrão: false) */
+    autoRegister?: boolean;
+}
+
+/**
+ * Opções de substituição de um provedor, retornadas por overrideProvider()
+ * @template T - Tipo da instância provida
+ */
+export interface OverrideProviderBuilder<T> {
+    /** Substitui o provedor por um valor (ex.: um mock) */
+    useValue(value: T): TestingModuleBuilder;
+    /** Substitui o provedor por outra classe */
+    useClass(useClass: Constructor<T>): TestingModuleBuilder;
+    /** Substitui o provedor por uma factory */
+    useFactory(
+        useFactory: (...args: any[]) => T | Promise<T>,
+        inject?: Token[]
+    ): TestingModuleBuilder;
+}
+
+/**
+ * Função stub que registra suas chamadas
+ * @template TArgs - Tipos dos argumentos
+ * @template TReturn - Tipo do retorno
+ */
+export interface MockFunction<TArgs extends any[] = any[], TReturn = any> {
+    (...args: TArgs): TReturn;
+    /** Argumentos de cada chamada, na ordem em que ocorreram */
+    readonly calls: TArgs[];
+    /** Define o valor retornado pelas próximas chamadas */
+    mockReturnValue(value: TReturn): this;
+    /** Define a implementação executada pelas próximas chamadas */
+    mockImplementation(implementation: (...args: TArgs) => TReturn): this;
+    /** Limpa o histórico de chamadas */
+    mockClear(): this;
+}
+
+/**
+ * Mock de um tipo: cada método é substituído por um MockFunction
+ * @template T - Tipo original
+ */
+export type Mocked<T> = {
+    [K in keyof T]: T[K] extends (...args: infer A) => infer R
+        ? MockFunction<A, R> & T[K]
+        : T[K];
+};
@@ -0,0 +1,54 @@
+import type { LifeCycleOpt } from "./container";
+
+/**
+ * Dependência obrigatória que não pode ser resolvida
+ */
+export interface UnresolvableDependency {
+    /** Nó do grafo que declara a dependência */
+    token: string;
+    /** Token da dependência */
+    dependency: string;
+    /** Propriedade que recebe a dependência (ausente em parâmetros do construtor) */
+    propertyKey?: string | symbol;
+    /** Motivo da falha */
+    reason: "missing" | "unknown-type";
+}
+
+/**
+ * Ciclo de dependências sem nenhuma aresta lazy para interrompê-lo
+ */
+export interface DependencyCycle {
+    /** Nós do ciclo, terminando no mesmo nó em que começa */
+    path: string[];
+}
+
+/**
+ * Dependência de vida mais curta capturada por um componente de vida mais longa
+ * (ex.: singleton que depende de um serviço request-scoped)
+ */
+export interface ScopeViolation {
+    /** Nó de vida mais longa */
+    token: string;
+    /** Escopo do nó */
+    scope: LifeCycleOpt;
+    /** Dependência capturada */
+    dependency: string;
+    /** Escopo da dependência */
+    dependencyScope: LifeCycleOpt;
+    /** Caminho do nó até a dependência (dependências transient intermediárias também são capturadas) */
+    path: string[];
+}
+
+/**
+ * Relatório de validação do container
+ */
+export interface ValidationReport {
+    /** Se true, nenhum problema foi encontrado */
+    valid: boolean;
+    /** Dependências obrigatórias sem provedor */
+    unresolvable: UnresolvableDependency[];
+    /** Ciclos de dependências */
+    cycles: DependencyCycle[];
+    /** Violações de escopo (captive dependencies) */
+    scopeViolations: ScopeViolation[];
+}
@@ -0,0 +1,175 @@
+import { describe, expect, test } from "bun:test";
+import {
+    CACHE_OPTIONS,
+    CACHE_STORE,
+    CacheEvict,
+    Cacheable,
+    Container,
+    GlobalContainer,
+    LruCacheStore,
+    registerCacheProviders,
+    scanAndRegister,
+    Service,
+    type CacheHit,
+    type CacheStore,
+} from "../index";
+import { createTestingModule } from "../src/testing";
+import { isolateGlobalState, silenceLogs } from "./helpers";
+
+silenceLogs();
+
+let loads = 0;
+
+@Service()
+class UserService {
+    @Cacheable({ name: "users", key: (id: number) => id })
+    findById(id: number) {
+        loads++;
+        return { id, load: loads };
+    }
+
+    @Cacheable({ name: "profiles" })
+    async findProfile(id: number) {
+        loads++;
+        if (id < 0) throw new Error("perfil inválido");
+        return { id };
+    }
+
+    @CacheEvict({ name: "users", key: (user: { id: number }) => user.id })
+    update(_user: { id: number }) {}
+
+    @CacheEvict({ name: "users", allEntries: true })
+    importAll() {}
+}
+
+function createContainer() {
+    const container = new Container();
+    registerCacheProviders(container);
+    return container;
+}
+
+describe("@Cacheable e @CacheEvict", () => {
+    test("reutiliza o retorno por chave e invalida entradas", () => {
+        const users = createContainer().resolve(UserService);
+        loads = 0;
+
+        expect(users.findById(1)).toBe(users.findById(1));
+        expect(loads).toBe(1);
+        users.findById(2);
+        expect(loads).toBe(2);
+
+        users.update({ id: 1 });
+        users.findById(1);
+        users.findById(2);
+        expect(loads).toBe(3);
+
+        users.importAll();
+        users.findById(2);
+        expect(loads).toBe(4);
+    });
+
+    test("armazena o valor resolvido de métodos assíncronos, mas não rejeições", async () => {
+        const users = createContainer().resolve(UserService);
+        loads = 0;
+
+        await users.findProfile(1);
+        await users.findProfile(1);
+        expect(loads).toBe(1);
+
+        await expect(users.findProfile(-1)).rejects.toThrow("perfil inválido");
+        await expect(users.findProfile(-1)).rejects.toThrow("perfil inválido");
+        expect(loads).toBe(3);
+    });
+
+    test("getStats() soma os contadores do container e de seus filhos", () => {
+        const root = new Container();
+        for (const child of [root.createChild(), root.createChild()]) {
+            registerCacheProviders(child);
+            const users = child.resolve(UserService);
+            users.findById(1);
+            users.findById(1);
+            users.importAll();
+        }
+
+        expect(root.getStats().cache).toEqual({
+            hits: 2,
+            misses: 2,
+            evictions: 2,
+            hitRate: 0.5,
+            caches: { users: { hits: 2, misses: 2, evictions: 2 } },
+        });
+    });
+});
+
+describe("armazenamento", () => {
+    test("o LruCacheStore descarta as entradas menos usadas e as expiradas", async () => {
+        const store = new LruCacheStore({ maxEntries: 2, ttl: 20 });
+        store.set("a", 1);
+        store.set("b", 2);
+        store.get("a");
+        store.set("c", 3);
+
+        expect(store.get("b")).toBeUndefined();
+        expect(store.get("a")).toEqual({ value: 1 });
+
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        expect(store.get("a")).toBeUndefined();
+    });
+
+    test("CACHE_OPTIONS configura o LruCacheStore padrão", () => {
+        const container = new Container();
+        container.register(CACHE_OPTIONS, { useValue: { maxEntries: 1 } });
+        registerCacheProviders(container);
+
+        const users = container.resolve(UserService);
+        loads = 0;
+        users.findById(1);
+        users.findById(2);
+        users.findById(1);
+        expect(loads).toBe(3);
+    });
+
+    test("um CACHE_STORE registrado depois do interceptador substitui o padrão", () => {
+        const keys: string[] = [];
+        const store: CacheStore = {
+            get: (key): CacheHit | undefined => {
+                keys.push(key);
+                return undefined;
+            },
+            set: () => {},
+            delete: () => {},
+            clear: () => {},
+        };
+
+        const container = createContainer();
+        const users = container.resolve(UserService);
+        container.register(CACHE_STORE, { useValue: store });
+
+        users.findById(7);
+        expect(keys).toEqual(["users:7"]);
+    });
+});
+
+describe("registro dos componentes de cache", () => {
+    isolateGlobalState();
+
+    test("scanAndRegister registra o interceptador e o armazenamento padrão", async () => {
+        await scanAndRegister();
+        expect(GlobalContainer.resolve(CACHE_STORE)).toBeInstanceOf(
+            LruCacheStore
+        );
+    });
+
+    test("o módulo de testes registra os componentes de cache", async () => {
+        const module = await createTestingModule({
+            providers: [UserService],
+        }).compile();
+        const users = module.get(UserService);
+        loads = 0;
+        users.findById(1);
+        users.findById(1);
+
+        expect(loads).toBe(1);
+        await module.close();
+    });
+});
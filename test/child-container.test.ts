@@ -0,0 +1,58 @@
+import { describe, expect, test } from "bun:test";
+import { Container, Inject, Service } from "../index";
+import { silenceLogs } from "./helpers";
+
+silenceLogs();
+
+describe("containers filhos", () => {
+    test("delegam ao pai os tokens que não conhecem", () => {
+        @Service()
+        class Clock {}
+
+        const parent = new Container();
+        parent.register(Clock, { useClass: Clock });
+        const child = parent.createChild();
+
+        expect(child.resolve(Clock)).toBe(parent.resolve(Clock));
+    });
+
+    test("sobrescrevem provedores sem afetar o pai nem os irmãos", () => {
+        @Service()
+        class BillingService {
+            constructor(@Inject("tenant") readonly tenant: string) {}
+        }
+
+        const parent = new Container();
+        parent.register("tenant", { useValue: "default" });
+        const acme = parent.createChild();
+        acme.register("tenant", { useValue: "acme" });
+        const globex = parent.createChild();
+
+        expect(acme.resolve(BillingService).tenant).toBe("acme");
+        expect(globex.resolve(BillingService).tenant).toBe("default");
+        expect(parent.resolve<string>("tenant")).toBe("default");
+    });
+
+    test("são descartados de forma independente", async () => {
+        const parent = new Container();
+        parent.register("shared", { useValue: "shared" });
+        const child = parent.createChild();
+        child.register("own", { useFactory: () => ({}) });
+        child.resolve("own");
+
+        await child.dispose();
+
+        expect(child.isDisposed()).toBe(true);
+        expect(() => child.resolve("own")).toThrow();
+        expect(parent.resolve<string>("shared")).toBe("shared");
+    });
+
+    test("o descarte do pai descarta os filhos", async () => {
+        const parent = new Container();
+        const child = parent.createChild();
+
+        await parent.dispose();
+
+        expect(child.isDisposed()).toBe(true);
+    });
+});
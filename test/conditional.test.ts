@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+    ConditionalOnEnv,
+    ConditionalOnMissingProvider,
+    Container,
+    GlobalContainer,
+    Profile,
+    scanAndRegister,
+    Service,
+} from "../index";
+import { isolateGlobalState, silenceLogs } from "./helpers";
+
+silenceLogs();
+
+describe("@Profile", () => {
+    test("seleciona a implementação dos perfis ativos", () => {
+        abstract class Mailer {}
+
+        @Service({ provide: Mailer })
+        @Profile("dev", "test")
+        class FakeMailer extends Mailer {}
+
+        @Service({ provide: Mailer })
+        @Profile("!dev", "!test")
+        class SmtpMailer extends Mailer {}
+
+        const dev = new Container();
+        dev.setActiveProfiles(["dev"]);
+        expect(dev.resolve(Mailer)).toBeInstanceOf(FakeMailer);
+
+        const prod = new Container();
+        prod.setActiveProfiles(["prod"]);
+        expect(prod.resolve(Mailer)).toBeInstanceOf(SmtpMailer);
+    });
+
+    test("classes de perfis inativos não são registradas e o erro explica o motivo", () => {
+        @Service()
+        @Profile("dev")
+        class DebugToolbar {}
+
+        const container = new Container();
+        container.setActiveProfiles(["prod"]);
+
+        expect(() => container.resolve(DebugToolbar)).toThrow(
+            "DebugToolbar não foi registrado"
+        );
+    });
+});
+
+describe("@ConditionalOnEnv", () => {
+    afterEach(() => {
+        delete process.env.INFUSE_TEST_REPORTS;
+    });
+
+    test("registra o componente apenas quando a variável está habilitada", () => {
+        @Service()
+        @ConditionalOnEnv("INFUSE_TEST_REPORTS")
+        class ReportService {}
+
+        process.env.INFUSE_TEST_REPORTS = "false";
+        expect(() => new Container().resolve(ReportService)).toThrow();
+
+        process.env.INFUSE_TEST_REPORTS = "1";
+        expect(new Container().resolve(ReportService)).toBeInstanceOf(
+            ReportService
+        );
+    });
+});
+
+describe("scanAndRegister com condições", () => {
+    isolateGlobalState();
+
+    test("ignora componentes de outros perfis", async () => {
+        @Service()
+        @Profile("dev")
+        class SeedService {}
+
+        @Service()
+        class UserService {}
+
+        await scanAndRegister({ profiles: ["prod"] });
+
+        expect(GlobalContainer.has(UserService)).toBe(true);
+        expect(GlobalContainer.has(SeedService)).toBe(false);
+    });
+
+    test("@ConditionalOnMissingProvider registra o padrão apenas sem outra implementação", async () => {
+        abstract class Storage {}
+
+        @Service({ provide: Storage })
+        @ConditionalOnMissingProvider(Storage)
+        class MemoryStorage extends Storage {}
+
+        @Service({ provide: Storage })
+        @Profile("prod")
+        class S3Storage extends Storage {}
+
+        await scanAndRegister({ profiles: ["prod"] });
+        expect(GlobalContainer.resolve(Storage)).toBeInstanceOf(S3Storage);
+        expect(GlobalContainer.has(MemoryStorage)).toBe(false);
+    });
+
+    test("@ConditionalOnMissingProvider registra o padrão quando nenhuma implementação é ativa", async () => {
+        abstract class Storage {}
+
+        @Service({ provide: Storage })
+        @ConditionalOnMissingProvider(Storage)
+        class MemoryStorage extends Storage {}
+
+        @Service({ provide: Storage })
+        @Profile("prod")
+        class S3Storage extends Storage {}
+
+        await scanAndRegister({ profiles: ["dev"] });
+        expect(GlobalContainer.resolve(Storage)).toBeInstanceOf(MemoryStorage);
+        expect(GlobalContainer.has(S3Storage)).toBe(false);
+    });
+});
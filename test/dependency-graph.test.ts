@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import {
+    Container,
+    Inject,
+    Optional,
+    Service,
+    toDot,
+    toMermaid,
+} from "../index";
+import { silenceLogs } from "./helpers";
+
+silenceLogs();
+
+function createContainer() {
+    @Service()
+    class Database {}
+
+    @Service()
+    class UserRepository {
+        constructor(
+            readonly db: Database,
+            @Optional() @Inject("metrics") readonly metrics?: unknown
+        ) {}
+    }
+
+    const container = new Container();
+    container.register(Database, { useClass: Database });
+    container.register(UserRepository, { useClass: UserRepository });
+    container.register("apiKey", { useValue: "secret" });
+    return container;
+}
+
+describe("grafo de dependências", () => {
+    test("descreve provedores, dependências e tokens ausentes", () => {
+        const graph = createContainer().getDependencyGraph();
+        const node = (id: string) => graph.nodes.find((node) => node.id === id);
+
+        expect(node("UserRepository")).toMatchObject({
+            kind: "class",
+            scope: "singleton",
+            stereotype: "service",
+            dependencies: 2,
+        });
+        expect(node("Database")).toMatchObject({
+            kind: "class",
+            dependents: 1,
+        });
+        expect(node("apiKey")).toMatchObject({ kind: "value" });
+        expect(node("metrics")).toMatchObject({ kind: "missing" });
+        expect(graph.edges).toEqual([
+            {
+                from: "UserRepository",
+                to: "Database",
+                optional: false,
+                lazy: false,
+                multi: false,
+            },
+            {
+                from: "UserRepository",
+                to: "metrics",
+                optional: true,
+                lazy: false,
+                multi: false,
+            },
+        ]);
+    });
+
+    test("é exportado em DOT e Mermaid", () => {
+        const graph = createContainer().getDependencyGraph();
+
+        const dot = toDot(graph);
+        expect(dot).toStartWith("digraph Container {");
+        expect(dot).toContain('"UserRepository" -> "Database";');
+        expect(dot).toContain(
+            '"UserRepository" -> "metrics" [label="opcional", style=dashed];'
+        );
+
+        const mermaid = toMermaid(graph);
+        expect(mermaid).toStartWith("graph LR");
+        expect(mermaid).toContain("-.->|opcional|");
+        expect(mermaid).toContain("classDef missing");
+    });
+
+    test("pode ser serializado como JSON", () => {
+        const graph = createContainer().getDependencyGraph();
+        expect(JSON.parse(JSON.stringify(graph)).edges).toHaveLength(2);
+    });
+});
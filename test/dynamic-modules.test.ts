@@ -0,0 +1,216 @@
+import { describe, expect, test } from "bun:test";
+import {
+    buildModules,
+    Container,
+    Controller,
+    getModuleRef,
+    Inject,
+    InjectionToken,
+    Module,
+    scanModule,
+    Service,
+} from "../index";
+import type { DynamicModule, ModuleAsyncOptions } from "../index";
+import { isolateGlobalState, silenceLogs } from "./helpers";
+
+silenceLogs();
+
+interface HttpOptions {
+    baseUrl: string;
+}
+
+const HTTP_OPTIONS = new InjectionToken<HttpOptions>("HTTP_OPTIONS");
+
+@Service()
+class HttpClient {
+    constructor(@Inject(HTTP_OPTIONS) readonly options: HttpOptions) {}
+}
+
+@Module({ providers: [HttpClient], exports: [HttpClient] })
+class HttpModule {
+    static forRoot(options: HttpOptions): DynamicModule {
+        return {
+            module: HttpModule,
+            providers: [{ provide: HTTP_OPTIONS, useValue: options }],
+        };
+    }
+
+    static forRootAsync(
+        options: ModuleAsyncOptions<HttpOptions>
+    ): DynamicModule {
+        return {
+            module: HttpModule,
+            imports: options.imports,
+            providers: [
+                {
+                    provide: HTTP_OPTIONS,
+                    useFactory: options.useFactory,
+                    inject: options.inject,
+                },
+            ],
+        };
+    }
+}
+
+describe("módulos dinâmicos", () => {
+    test("cada importação cria uma instância com suas próprias opções", () => {
+        @Service()
+        class Users {
+            constructor(readonly http: HttpClient) {}
+        }
+
+        @Service()
+        class Orders {
+            constructor(readonly http: HttpClient) {}
+        }
+
+        const usersHttp = HttpModule.forRoot({ baseUrl: "https://users" });
+        const ordersHttp = HttpModule.forRoot({ baseUrl: "https://orders" });
+
+        @Module({ imports: [usersHttp], providers: [Users], exports: [Users] })
+        class UsersModule {}
+
+        @Module({
+            imports: [ordersHttp],
+            providers: [Orders],
+            exports: [Orders],
+        })
+        class OrdersModule {}
+
+        @Module({ imports: [UsersModule, OrdersModule] })
+        class AppModule {}
+
+        buildModules(AppModule, new Container());
+        const users = getModuleRef(UsersModule)!.get(Users);
+        const orders = getModuleRef(OrdersModule)!.get(Orders);
+
+        expect(users.http.options.baseUrl).toBe("https://users");
+        expect(orders.http.options.baseUrl).toBe("https://orders");
+        expect(getModuleRef(usersHttp)!.get(HttpClient)).toBe(users.http);
+        // As opções ficam privadas no container da instância do módulo
+        expect(() => getModuleRef(UsersModule)!.get(HTTP_OPTIONS)).toThrow();
+    });
+
+    test("getModuleRef exige o objeto importado quando a classe tem várias instâncias", () => {
+        @Module({
+            imports: [
+                HttpModule.forRoot({ baseUrl: "https://a" }),
+                HttpModule.forRoot({ baseUrl: "https://b" }),
+            ],
+        })
+        class AppModule {}
+
+        buildModules(AppModule, new Container());
+
+        expect(() => getModuleRef(HttpModule)).toThrow(
+            "HttpModule possui 2 instâncias"
+        );
+    });
+
+    test("o mesmo objeto importado em vários módulos é construído uma vez", () => {
+        const REPOSITORIES = new InjectionToken<string[]>("REPOSITORIES");
+
+        class RepositoryModule {
+            static forFeature(entities: string[]): DynamicModule {
+                return {
+                    module: RepositoryModule,
+                    providers: [{ provide: REPOSITORIES, useValue: entities }],
+                    exports: [REPOSITORIES],
+                };
+            }
+        }
+
+        const users = RepositoryModule.forFeature(["user"]);
+
+        @Module({ imports: [users] })
+        class FirstModule {}
+
+        @Module({ imports: [users, FirstModule] })
+        class AppModule {}
+
+        buildModules(AppModule, new Container());
+
+        expect(getModuleRef(RepositoryModule)!).toBe(getModuleRef(users)!);
+        expect(getModuleRef(AppModule)!.get(REPOSITORIES)).toEqual(["user"]);
+    });
+
+    test("rejeita a mesma classe importada de forma estática e dinâmica", () => {
+        @Module({})
+        class ConfigModule {
+            static forRoot(): DynamicModule {
+                return { module: ConfigModule };
+            }
+        }
+
+        @Module({ imports: [ConfigModule, ConfigModule.forRoot()] })
+        class AppModule {}
+
+        expect(() => buildModules(AppModule, new Container())).toThrow(
+            "ConfigModule é importado de forma estática e como módulo dinâmico"
+        );
+    });
+
+    test("módulos com controllers só podem ter uma instância", () => {
+        @Controller("/web")
+        class WebController {}
+
+        @Module({ controllers: [WebController] })
+        class WebModule {
+            static forRoot(): DynamicModule {
+                return { module: WebModule };
+            }
+        }
+
+        @Module({ imports: [WebModule.forRoot(), WebModule.forRoot()] })
+        class AppModule {}
+
+        expect(() => buildModules(AppModule, new Container())).toThrow(
+            "WebModule declara controllers e só pode ter uma instância"
+        );
+    });
+
+    test("rejeita módulos dinâmicos sem classe", () => {
+        const invalid = { module: undefined } as unknown as DynamicModule;
+
+        expect(() => buildModules(invalid, new Container())).toThrow(
+            "Módulo dinâmico sem classe"
+        );
+    });
+});
+
+describe("forRootAsync()", () => {
+    isolateGlobalState();
+
+    test("cria as opções com uma factory assíncrona e dependências importadas", async () => {
+        @Service()
+        class ConfigService {
+            get(key: string) {
+                return `https://${key.toLowerCase()}.example`;
+            }
+        }
+
+        @Module({ providers: [ConfigService], exports: [ConfigService] })
+        class ConfigModule {}
+
+        @Module({
+            imports: [
+                HttpModule.forRootAsync({
+                    imports: [ConfigModule],
+                    useFactory: async (config: ConfigService) => {
+                        await Promise.resolve();
+                        return { baseUrl: config.get("API") };
+                    },
+                    inject: [ConfigService],
+                }),
+            ],
+            exports: [HttpModule],
+        })
+        class AppModule {}
+
+        const app = await scanModule(AppModule);
+
+        expect(app.get(HttpClient).options).toEqual({
+            baseUrl: "https://api.example",
+        });
+    });
+});
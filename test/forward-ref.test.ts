@@ -0,0 +1,79 @@
+import { describe, expect, test } from "bun:test";
+import { Container, forwardRef, Inject, Service, type Lazy } from "../index";
+import { silenceLogs } from "./helpers";
+
+silenceLogs();
+
+describe("forwardRef e injeção lazy", () => {
+    test("proxies lazy permitem dependências circulares entre construtores", () => {
+        @Service()
+        class OrderService {
+            constructor(
+                @Inject(forwardRef(() => InvoiceService), { lazy: true })
+                readonly invoices: Lazy<InvoiceService>
+            ) {}
+
+            total() {
+                return 10;
+            }
+        }
+
+        @Service()
+        class InvoiceService {
+            constructor(readonly orders: OrderService) {}
+
+            describe() {
+                return `fatura de ${this.orders.total()}`;
+            }
+        }
+
+        const container = new Container();
+        const orders = container.resolve(OrderService);
+
+        expect(orders.invoices.describe()).toBe("fatura de 10");
+        expect(container.resolve(InvoiceService).orders).toBe(orders);
+    });
+
+    test("a instância lazy só é criada no primeiro acesso", () => {
+        let created = 0;
+
+        @Service()
+        class Mailer {
+            constructor() {
+                created++;
+            }
+
+            send() {
+                return "enviado";
+            }
+        }
+
+        @Service()
+        class Signup {
+            constructor(
+                @Inject(Mailer, { lazy: true }) readonly mailer: Lazy<Mailer>
+            ) {}
+        }
+
+        const signup = new Container().resolve(Signup);
+        expect(created).toBe(0);
+        expect(signup.mailer.send()).toBe("enviado");
+        expect(created).toBe(1);
+    });
+
+    test("ciclos sem injeção lazy falham com uma dica", () => {
+        @Service()
+        class A {
+            constructor(@Inject(forwardRef(() => B)) readonly b: unknown) {}
+        }
+
+        @Service()
+        class B {
+            constructor(readonly a: A) {}
+        }
+
+        expect(() => new Container().resolve(A)).toThrow(
+            "Dependência circular detectada"
+        );
+    });
+});
@@ -0,0 +1,47 @@
+import { afterAll, afterEach, beforeAll, beforeEach, spyOn } from "bun:test";
+import {
+    captureLifecycleState,
+    captureMetadataState,
+    GlobalContainer,
+    metadataRegistry,
+} from "../index";
+
+/**
+ * Silencia os logs do framework (log, warn e error) durante os testes do arquivo
+ * Falhas esperadas, como erros de bootstrap, são registradas pelo scanner
+ */
+export function silenceLogs(): void {
+    const methods = ["log", "warn", "error"] as const;
+    let spies: ReturnType<typeof spyOn>[] = [];
+    beforeAll(() => {
+        spies = methods.map((method) =>
+            spyOn(console, method).mockImplementation(() => {})
+        );
+    });
+    afterAll(() => spies.forEach((spy) => spy.mockRestore()));
+}
+
+/**
+ * Isola cada teste do arquivo do estado global: o metadataRegistry começa vazio
+ * (apenas as classes decoradas pelo próprio teste são escaneadas) e o
+ * GlobalContainer é descartado e resetado ao final
+ */
+export function isolateGlobalState(): void {
+    let restoreMetadata: () => void = () => {};
+    let restoreLifecycle: () => void = () => {};
+
+    beforeEach(() => {
+        restoreMetadata = captureMetadataState();
+        restoreLifecycle = captureLifecycleState();
+        for (const value of Object.values(metadataRegistry)) {
+            if (value instanceof Set || value instanceof Map) value.clear();
+        }
+    });
+
+    afterEach(async () => {
+        await GlobalContainer.dispose();
+        GlobalContainer.reset();
+        restoreMetadata();
+        restoreLifecycle();
+    });
+}
@@ -0,0 +1,150 @@
+import { describe, expect, test } from "bun:test";
+import {
+    Application,
+    bootstrap,
+    Container,
+    GlobalContainer,
+    Module,
+    scanAndRegister,
+    Service,
+} from "../index";
+import { isolateGlobalState, silenceLogs } from "./helpers";
+
+silenceLogs();
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("whenInitialized()", () => {
+    test("executa onInit assíncronos em ordem de dependência", async () => {
+        const events: string[] = [];
+
+        @Service()
+        class Database {
+            async onInit() {
+                events.push("Database:start");
+                await delay(5);
+                events.push("Database:end");
+            }
+        }
+
+        @Service()
+        class UserRepository {
+            constructor(readonly db: Database) {}
+
+            async onInit() {
+                events.push("UserRepository:start");
+            }
+        }
+
+        const container = new Container();
+        container.resolve(UserRepository);
+        await container.whenInitialized();
+
+        expect(events).toEqual([
+            "Database:start",
+            "Database:end",
+            "UserRepository:start",
+        ]);
+    });
+
+    test("reúne as falhas de componentes obrigatórios em um AggregateError", async () => {
+        @Service()
+        class Broker {
+            async onInit() {
+                throw new Error("broker indisponível");
+            }
+        }
+
+        @Service()
+        class Cache {
+            async onInit() {
+                throw new Error("cache indisponível");
+            }
+        }
+
+        @Service({ lifecycle: { scope: "singleton", initRequired: false } })
+        class Metrics {
+            async onInit() {
+                throw new Error("métricas indisponíveis");
+            }
+        }
+
+        const container = new Container();
+        container.resolve(Broker);
+        container.resolve(Cache);
+        container.resolve(Metrics);
+
+        const error = await container.whenInitialized().then(
+            () => undefined,
+            (error: unknown) => error
+        );
+        expect(error).toBeInstanceOf(AggregateError);
+        expect((error as AggregateError).errors).toHaveLength(2);
+    });
+
+    test("onInit que excede o tempo limite falha", async () => {
+        @Service()
+        class SlowService {
+            onInit() {
+                return delay(200);
+            }
+        }
+
+        const container = new Container();
+        container.setInitTimeout(10);
+        container.resolve(SlowService);
+
+        await expect(container.whenInitialized()).rejects.toBeInstanceOf(
+            AggregateError
+        );
+    });
+});
+
+describe("bootstrap", () => {
+    isolateGlobalState();
+
+    test("scanAndRegister aguarda os onInit dos componentes", async () => {
+        let ready = false;
+
+        @Service()
+        class Connection {
+            async onInit() {
+                await delay(5);
+                ready = true;
+            }
+        }
+
+        await scanAndRegister();
+        expect(ready).toBe(true);
+    });
+
+    test("aborta quando um onInit obrigatório falha e mantém o GlobalContainer utilizável", async () => {
+        const destroyed: string[] = [];
+
+        @Service()
+        class Config {
+            onDestroy() {
+                destroyed.push("Config");
+            }
+        }
+
+        @Service()
+        class Database {
+            constructor(readonly config: Config) {}
+
+            async onInit() {
+                throw new Error("conexão recusada");
+            }
+        }
+
+        @Module({ providers: [Config, Database] })
+        class AppModule {}
+
+        @Application({ module: AppModule })
+        class App {}
+
+        await expect(bootstrap(App)).rejects.toBeInstanceOf(AggregateError);
+        expect(destroyed).toEqual(["Config"]);
+        expect(GlobalContainer.isDisposed()).toBe(false);
+    });
+});
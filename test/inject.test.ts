@@ -0,0 +1,174 @@
+import { describe, expect, test } from "bun:test";
+import {
+    Autowired,
+    Container,
+    Inject,
+    Optional,
+    Service,
+    Value,
+} from "../index";
+import { silenceLogs } from "./helpers";
+
+silenceLogs();
+
+interface Logger {
+    info(message: string): void;
+}
+
+describe("@Inject", () => {
+    test("injeta dependências registradas com tokens string e symbol", () => {
+        const LOGGER = Symbol("Logger");
+        const logger: Logger = { info: () => {} };
+
+        @Service()
+        class Repository {}
+
+        @Service()
+        class UserService {
+            constructor(
+                @Inject("apiKey") readonly apiKey: string,
+                @Inject(LOGGER) readonly logger: Logger,
+                readonly repository: Repository
+            ) {}
+        }
+
+        const container = new Container();
+        container.register("apiKey", { useValue: "secret" });
+        container.register(LOGGER, { useValue: logger });
+
+        const service = container.resolve(UserService);
+        expect(service.apiKey).toBe("secret");
+        expect(service.logger).toBe(logger);
+        expect(service.repository).toBeInstanceOf(Repository);
+    });
+
+    test("falha com uma dica quando o tipo do parâmetro não existe em runtime", () => {
+        @Service()
+        class Notifier {
+            constructor(readonly logger: Logger) {}
+        }
+
+        expect(() => new Container().resolve(Notifier)).toThrow("@Inject");
+    });
+
+    test("não pode ser usado fora do construtor", () => {
+        expect(() => {
+            class Handler {
+                handle(@Inject("event") _event: unknown) {}
+            }
+            return Handler;
+        }).toThrow("@Inject só pode ser usado em parâmetros do construtor");
+    });
+});
+
+describe("@Autowired e @Value", () => {
+    test("injetam propriedades declaradas em classes base e setters", () => {
+        @Service()
+        class Logger {}
+
+        @Service()
+        class Mailer {
+            readonly transport = "smtp";
+        }
+
+        abstract class BaseService {
+            @Autowired() protected logger!: Logger;
+
+            get baseLogger() {
+                return this.logger;
+            }
+        }
+
+        @Service()
+        class OrderService extends BaseService {
+            transport?: string;
+
+            @Value("region") readonly region!: string;
+
+            @Autowired()
+            set mailer(mailer: Mailer) {
+                this.transport = mailer.transport;
+            }
+        }
+
+        const container = new Container();
+        container.register("region", { useValue: "sa-east-1" });
+
+        const service = container.resolve(OrderService);
+        expect(service.baseLogger).toBe(container.resolve(Logger));
+        expect(service.region).toBe("sa-east-1");
+        expect(service.transport).toBe("smtp");
+    });
+
+    test("propriedades lazy são resolvidas apenas no primeiro acesso", () => {
+        let created = 0;
+
+        @Service()
+        class Payments {
+            constructor() {
+                created++;
+            }
+        }
+
+        @Service()
+        class Checkout {
+            @Autowired({ lazy: true }) payments!: Payments;
+        }
+
+        const checkout = new Container().resolve(Checkout);
+        expect(created).toBe(0);
+        expect(checkout.payments).toBeInstanceOf(Payments);
+        expect(created).toBe(1);
+    });
+
+    test("lazy não pode ser usado em setters", () => {
+        expect(() => {
+            class Checkout {
+                @Autowired({ token: "payments", lazy: true })
+                set payments(_payments: unknown) {}
+            }
+            return Checkout;
+        }).toThrow("@Autowired({ lazy: true }) não pode ser usado em setters");
+    });
+});
+
+describe("@Optional", () => {
+    test("injeta o valor padrão quando a dependência não está disponível", () => {
+        @Service()
+        class Settings {
+            constructor(
+                @Optional(5000) @Inject("timeout") readonly timeout: number,
+                @Optional() @Inject("region") readonly region?: string
+            ) {}
+        }
+
+        const settings = new Container().resolve(Settings);
+        expect(settings.timeout).toBe(5000);
+        expect(settings.region).toBeUndefined();
+    });
+
+    test("usa a dependência registrada quando disponível", () => {
+        @Service()
+        class Settings {
+            constructor(
+                @Optional(5000) @Inject("timeout") readonly timeout: number
+            ) {}
+        }
+
+        const container = new Container();
+        container.register("timeout", { useValue: 100 });
+        expect(container.resolve(Settings).timeout).toBe(100);
+    });
+
+    test("preserva o valor inicial de propriedades sem valor padrão", () => {
+        @Service()
+        class Notifier {
+            @Optional() @Value("channel") channel = "email";
+            @Optional("none") @Value("fallback") fallback!: string;
+        }
+
+        const notifier = new Container().resolve(Notifier);
+        expect(notifier.channel).toBe("email");
+        expect(notifier.fallback).toBe("none");
+    });
+});
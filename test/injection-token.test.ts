@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import { Container, Inject, InjectionToken, Service } from "../index";
+import { silenceLogs } from "./helpers";
+
+silenceLogs();
+
+interface AppSettings {
+    apiUrl: string;
+}
+
+describe("InjectionToken", () => {
+    test("identifica valores que não são classes", () => {
+        const SETTINGS = new InjectionToken<AppSettings>("AppSettings");
+
+        @Service()
+        class ApiClient {
+            constructor(@Inject(SETTINGS) readonly settings: AppSettings) {}
+        }
+
+        const container = new Container();
+        container.register(SETTINGS, { useValue: { apiUrl: "https://api" } });
+
+        const settings: AppSettings = container.resolve(SETTINGS);
+        expect(settings.apiUrl).toBe("https://api");
+        expect(container.resolve(ApiClient).settings).toBe(settings);
+    });
+
+    test("tokens com a mesma descrição são distintos", () => {
+        const first = new InjectionToken<number>("Port");
+        const second = new InjectionToken<number>("Port");
+
+        const container = new Container();
+        container.register(first, { useValue: 80 });
+
+        expect(container.has(first)).toBe(true);
+        expect(container.has(second)).toBe(false);
+    });
+
+    test("usa a factory padrão como singleton quando nenhum provedor foi registrado", () => {
+        const SETTINGS = new InjectionToken<AppSettings>("AppSettings", {
+            factory: () => ({ apiUrl: "http://localhost" }),
+        });
+
+        const container = new Container();
+        const settings = container.resolve(SETTINGS);
+        expect(settings).toEqual({ apiUrl: "http://localhost" });
+        expect(container.resolve(SETTINGS)).toBe(settings);
+    });
+
+    test("mensagens de erro exibem a descrição do token", () => {
+        const MISSING = new InjectionToken<string>("MissingValue");
+
+        expect(() => new Container().resolve(MISSING)).toThrow(
+            "InjectionToken(MissingValue)"
+        );
+    });
+});
@@ -0,0 +1,161 @@
+import { describe, expect, test } from "bun:test";
+import {
+    After,
+    Around,
+    Before,
+    Container,
+    Interceptor,
+    Service,
+    type AfterInterceptor,
+    type AroundInterceptor,
+    type BeforeInterceptor,
+    type InvocationContext,
+} from "../index";
+import { silenceLogs } from "./helpers";
+
+silenceLogs();
+
+describe("interceptadores", () => {
+    test("executam os da classe antes dos do método, na ordem do código", () => {
+        const calls: string[] = [];
+
+        @Interceptor()
+        class Audit implements BeforeInterceptor {
+            before({ methodName }: InvocationContext) {
+                calls.push(`audit:${String(methodName)}`);
+            }
+        }
+
+        @Interceptor()
+        class Timing implements AroundInterceptor {
+            around(_context: InvocationContext, proceed: () => unknown) {
+                calls.push("timing:start");
+                const result = proceed();
+                calls.push("timing:end");
+                return result;
+            }
+        }
+
+        @Interceptor()
+        class Log implements AfterInterceptor {
+            after({ result }: InvocationContext) {
+                calls.push(`log:${String(result)}`);
+            }
+        }
+
+        @Service()
+        @Before(Audit)
+        class OrderService {
+            @Around(Timing)
+            @After(Log)
+            placeOrder(id: number) {
+                calls.push("placeOrder");
+                return `pedido ${id}`;
+            }
+
+            onInit() {
+                calls.push("onInit");
+            }
+        }
+
+        const orders = new Container().resolve(OrderService);
+        expect(orders.placeOrder(1)).toBe("pedido 1");
+        expect(calls).toEqual([
+            "onInit",
+            "audit:placeOrder",
+            "timing:start",
+            "placeOrder",
+            "log:pedido 1",
+            "timing:end",
+        ]);
+    });
+
+    test("@Before altera argumentos e @After substitui o retorno ou observa o erro", () => {
+        const errors: unknown[] = [];
+
+        @Interceptor()
+        class Normalize implements BeforeInterceptor {
+            before(context: InvocationContext) {
+                context.args = context.args.map((arg) =>
+                    String(arg).trim().toLowerCase()
+                );
+            }
+        }
+
+        @Interceptor()
+        class Fallback implements AfterInterceptor {
+            after(context: InvocationContext) {
+                if (context.error === undefined) return;
+                errors.push(context.error);
+                context.error = undefined;
+                context.result = "anônimo";
+            }
+        }
+
+        @Service()
+        class Users {
+            @Before(Normalize)
+            @After(Fallback)
+            find(name: string) {
+                if (!name) throw new Error("nome vazio");
+                return name;
+            }
+        }
+
+        const users = new Container().resolve(Users);
+        expect(users.find("  ANA ")).toBe("ana");
+        expect(users.find("")).toBe("anônimo");
+        expect(errors).toHaveLength(1);
+    });
+
+    test("métodos assíncronos são aguardados antes de @After", async () => {
+        const results: unknown[] = [];
+
+        @Interceptor()
+        class Capture implements AfterInterceptor {
+            after({ result }: InvocationContext) {
+                results.push(result);
+            }
+        }
+
+        @Service()
+        class Payments {
+            @After(Capture)
+            async charge() {
+                await Promise.resolve();
+                return "pago";
+            }
+        }
+
+        expect(await new Container().resolve(Payments).charge()).toBe("pago");
+        expect(results).toEqual(["pago"]);
+    });
+
+    test("interceptadores são resolvidos pelo container e recebem dependências", () => {
+        @Service()
+        class Clock {
+            now() {
+                return 42;
+            }
+        }
+
+        @Interceptor()
+        class Stamp implements AroundInterceptor {
+            constructor(private readonly clock: Clock) {}
+
+            around(_context: InvocationContext, proceed: () => unknown) {
+                return `${String(proceed())}@${this.clock.now()}`;
+            }
+        }
+
+        @Service()
+        class Events {
+            @Around(Stamp)
+            emit() {
+                return "evento";
+            }
+        }
+
+        expect(new Container().resolve(Events).emit()).toBe("evento@42");
+    });
+});
@@ -0,0 +1,185 @@
+import { describe, expect, test } from "bun:test";
+import { Container, Service } from "../index";
+import { silenceLogs } from "./helpers";
+
+silenceLogs();
+
+describe("dispose()", () => {
+    test("destrói cada instância antes das dependências que recebeu", async () => {
+        const destroyed: string[] = [];
+
+        @Service()
+        class Database {
+            onDestroy() {
+                destroyed.push("Database");
+            }
+        }
+
+        @Service()
+        class UserRepository {
+            constructor(readonly db: Database) {}
+
+            onDestroy() {
+                destroyed.push("UserRepository");
+            }
+        }
+
+        @Service()
+        class UserService {
+            constructor(readonly repository: UserRepository) {}
+
+            async onDestroy() {
+                await Promise.resolve();
+                destroyed.push("UserService");
+            }
+        }
+
+        const container = new Container();
+        // A ordem de resolução não determina a ordem de destruição
+        container.resolve(Database);
+        container.resolve(UserService);
+        await container.dispose();
+
+        expect(destroyed).toEqual([
+            "UserService",
+            "UserRepository",
+            "Database",
+        ]);
+    });
+
+    test("suporta Symbol.dispose e Symbol.asyncDispose, uma única vez por instância", async () => {
+        const disposed: string[] = [];
+
+        @Service()
+        class Socket {
+            [Symbol.dispose]() {
+                disposed.push("Socket");
+            }
+        }
+
+        @Service()
+        class Pool {
+            constructor(readonly socket: Socket) {}
+
+            async [Symbol.asyncDispose]() {
+                disposed.push("Pool");
+            }
+        }
+
+        const container = new Container();
+        container.resolve(Pool);
+        await container.dispose();
+        await container.dispose();
+
+        expect(disposed).toEqual(["Pool", "Socket"]);
+    });
+
+    test("o container descartado recusa resoluções até ser resetado", async () => {
+        @Service()
+        class Clock {}
+
+        const container = new Container();
+        container.resolve(Clock);
+        await container.dispose();
+
+        expect(container.isDisposed()).toBe(true);
+        expect(() => container.resolve(Clock)).toThrow(
+            "Container descartado: não é possível resolver Clock"
+        );
+        expect(() => container.createChild()).toThrow("Container descartado");
+
+        container.reset();
+        expect(container.isDisposed()).toBe(false);
+        expect(container.resolve(Clock)).toBeInstanceOf(Clock);
+    });
+
+    test("transients não são mantidos nem destruídos pelo container", async () => {
+        const destroyed: string[] = [];
+
+        @Service({ scope: "transient" })
+        class Command {
+            onDestroy() {
+                destroyed.push("Command");
+            }
+        }
+
+        const container = new Container();
+        container.resolve(Command);
+        await container.dispose();
+
+        expect(destroyed).toEqual([]);
+    });
+});
+
+describe("hooks de ciclo de vida", () => {
+    test("onInit é executado uma vez por instância, em qualquer escopo, após o das dependências", () => {
+        const initialized: string[] = [];
+
+        @Service()
+        class Config {
+            onInit() {
+                initialized.push("Config");
+            }
+        }
+
+        @Service({ scope: "transient" })
+        class Formatter {
+            constructor(readonly config: Config) {}
+
+            onInit() {
+                initialized.push("Formatter");
+            }
+        }
+
+        @Service()
+        class Reporter {
+            constructor(
+                readonly first: Formatter,
+                readonly second: Formatter
+            ) {}
+
+            onInit() {
+                initialized.push("Reporter");
+            }
+        }
+
+        const container = new Container();
+        container.resolve(Reporter);
+        container.resolve(Reporter);
+
+        expect(initialized).toEqual([
+            "Config",
+            "Formatter",
+            "Formatter",
+            "Reporter",
+        ]);
+    });
+
+    test("instâncias request-scoped recebem onRequestStart e onRequestEnd", async () => {
+        const events: string[] = [];
+
+        @Service({ scope: "request" })
+        class Session {
+            onRequestStart(requestId: string) {
+                events.push(`start:${requestId}`);
+            }
+
+            onRequestEnd() {
+                events.push("end");
+            }
+        }
+
+        @Service({ scope: "transient" })
+        class Handler {
+            constructor(readonly session: Session) {}
+        }
+
+        const container = new Container();
+        await container.runInScope("req-1", async () => {
+            container.resolve(Handler);
+            container.resolve(Handler);
+        });
+
+        expect(events).toEqual(["start:req-1", "end"]);
+    });
+});
@@ -0,0 +1,298 @@
+import { describe, expect, test } from "bun:test";
+import {
+    buildModules,
+    Container,
+    Controller,
+    getModuleContainer,
+    getModuleRef,
+    GlobalContainer,
+    Inject,
+    InjectionToken,
+    Module,
+    scanModule,
+    Service,
+} from "../index";
+import { isolateGlobalState, silenceLogs } from "./helpers";
+
+silenceLogs();
+
+describe("buildModules()", () => {
+    test("cria um container por módulo com provedores privados", () => {
+        @Service()
+        class UserRepository {}
+
+        @Service()
+        class UserService {
+            constructor(readonly repository: UserRepository) {}
+        }
+
+        @Module({
+            providers: [UserService, UserRepository],
+            exports: [UserService],
+        })
+        class UsersModule {}
+
+        @Module({ imports: [UsersModule] })
+        class AppModule {}
+
+        const app = new Container();
+        buildModules(AppModule, app);
+        const users = getModuleRef(UsersModule)!;
+
+        expect(users.get(UserService).repository).toBe(
+            users.get(UserRepository)
+        );
+        expect(users.exports.has(UserService)).toBe(true);
+        expect(users.exports.has(UserRepository)).toBe(false);
+    });
+
+    test("módulos importados compartilham a instância exportada", () => {
+        @Service()
+        class UserService {}
+
+        @Service()
+        class BillingService {
+            constructor(readonly users: UserService) {}
+        }
+
+        @Module({ providers: [UserService], exports: [UserService] })
+        class UsersModule {}
+
+        @Module({ imports: [UsersModule], providers: [BillingService] })
+        class BillingModule {}
+
+        @Module({ imports: [UsersModule, BillingModule] })
+        class AppModule {}
+
+        buildModules(AppModule, new Container());
+
+        const billing = getModuleRef(BillingModule)!.get(BillingService);
+        expect(billing.users).toBe(getModuleRef(UsersModule)!.get(UserService));
+    });
+
+    test("injetar um provedor privado de outro módulo explica como exportá-lo", () => {
+        @Service()
+        class UserRepository {}
+
+        @Service()
+        class Audit {
+            constructor(readonly repository: UserRepository) {}
+        }
+
+        @Module({ providers: [UserRepository] })
+        class UsersModule {}
+
+        @Module({ imports: [UsersModule], providers: [Audit] })
+        class AuditModule {}
+
+        buildModules(AuditModule, new Container());
+
+        expect(() => getModuleRef(AuditModule)!.get(Audit)).toThrow(
+            "UserRepository é privado do módulo UsersModule"
+        );
+    });
+
+    test("classes que nenhum módulo declara não são auto-registradas", () => {
+        @Service()
+        class Loose {}
+
+        @Service()
+        class Consumer {
+            constructor(readonly loose: Loose) {}
+        }
+
+        @Module({ providers: [Consumer] })
+        class AppModule {}
+
+        buildModules(AppModule, new Container());
+
+        expect(() => getModuleRef(AppModule)!.get(Consumer)).toThrow(
+            "Loose não é declarado por nenhum módulo"
+        );
+    });
+
+    test("factories padrão de InjectionToken são compartilhadas pelo container raiz", () => {
+        let created = 0;
+        const CLOCK = new InjectionToken<object>("CLOCK", {
+            factory: () => ({ id: ++created }),
+        });
+
+        @Service()
+        class First {
+            constructor(@Inject(CLOCK) readonly clock: object) {}
+        }
+
+        @Service()
+        class Second {
+            constructor(@Inject(CLOCK) readonly clock: object) {}
+        }
+
+        @Module({ providers: [First], exports: [First] })
+        class FirstModule {}
+
+        @Module({ providers: [Second], exports: [Second] })
+        class SecondModule {}
+
+        @Module({ imports: [FirstModule, SecondModule] })
+        class AppModule {}
+
+        const app = new Container();
+        buildModules(AppModule, app);
+
+        expect(getModuleRef(FirstModule)!.get(First).clock).toBe(
+            getModuleRef(SecondModule)!.get(Second).clock
+        );
+        expect(app.has(CLOCK)).toBe(true);
+        expect(created).toBe(1);
+    });
+
+    test("exports de módulos globais ficam disponíveis sem importação", () => {
+        const DB_URL = new InjectionToken<string>("DB_URL");
+
+        @Service()
+        class Repository {
+            constructor(@Inject(DB_URL) readonly url: string) {}
+        }
+
+        @Module({
+            providers: [{ provide: DB_URL, useValue: "postgres://db" }],
+            exports: [DB_URL],
+            global: true,
+        })
+        class DatabaseModule {}
+
+        @Module({ providers: [Repository] })
+        class UsersModule {}
+
+        @Module({ imports: [DatabaseModule, UsersModule] })
+        class AppModule {}
+
+        const app = new Container();
+        buildModules(AppModule, app);
+
+        expect(getModuleRef(UsersModule)!.get(Repository).url).toBe(
+            "postgres://db"
+        );
+        expect(app.resolve(DB_URL)).toBe("postgres://db");
+    });
+
+    test("reexporta módulos importados por inteiro", () => {
+        @Service()
+        class UserService {}
+
+        @Module({ providers: [UserService], exports: [UserService] })
+        class UsersModule {}
+
+        @Module({ imports: [UsersModule], exports: [UsersModule] })
+        class SharedModule {}
+
+        @Module({ imports: [SharedModule] })
+        class AppModule {}
+
+        buildModules(AppModule, new Container());
+
+        expect(getModuleRef(SharedModule)!.exports.get(UserService)).toBe(
+            getModuleRef(UsersModule)!.container
+        );
+    });
+
+    test("rejeita exports que o módulo não provê nem importa", () => {
+        @Service()
+        class Orphan {}
+
+        @Module({ exports: [Orphan] })
+        class BrokenModule {}
+
+        expect(() => buildModules(BrokenModule, new Container())).toThrow(
+            "BrokenModule exporta Orphan, que não é provedor do módulo nem export de um módulo importado"
+        );
+    });
+
+    test("rejeita importações de classes que não são módulos", () => {
+        class NotAModule {}
+
+        @Module({ imports: [NotAModule] })
+        class AppModule {}
+
+        expect(() => buildModules(AppModule, new Container())).toThrow(
+            "NotAModule não é um módulo"
+        );
+    });
+});
+
+describe("@Module", () => {
+    test("uma classe só pode ser declarada em um módulo", () => {
+        @Service()
+        class UserService {}
+
+        @Module({ providers: [UserService] })
+        class UsersModule {}
+
+        expect(() => {
+            @Module({ providers: [UserService] })
+            class OtherModule {}
+            return OtherModule;
+        }).toThrow(
+            "UserService já foi declarado no módulo UsersModule e não pode ser declarado em OtherModule"
+        );
+        expect(UsersModule).toBeDefined();
+    });
+});
+
+describe("scanModule()", () => {
+    isolateGlobalState();
+
+    test("constrói os módulos e expõe no GlobalContainer apenas os exports da raiz", async () => {
+        @Service()
+        class UserRepository {}
+
+        @Service()
+        class UserService {
+            constructor(readonly repository: UserRepository) {}
+        }
+
+        @Module({
+            providers: [UserService, UserRepository],
+            exports: [UserService],
+        })
+        class UsersModule {}
+
+        @Controller("/users")
+        class UserController {
+            constructor(readonly users: UserService) {}
+        }
+
+        @Module({
+            imports: [UsersModule],
+            controllers: [UserController],
+            exports: [UsersModule],
+        })
+        class AppModule {}
+
+        const app = await scanModule(AppModule);
+
+        expect(app).toBe(getModuleRef(AppModule)!);
+        expect(getModuleContainer(UserController)).toBe(app.container);
+        expect(app.get(UserController).users).toBe(
+            GlobalContainer.resolve(UserService)
+        );
+        expect(() => GlobalContainer.resolve(UserRepository)).toThrow(
+            "UserRepository é privado do módulo UsersModule"
+        );
+    });
+
+    test("rejeita importações circulares entre módulos", async () => {
+        @Module({})
+        class FirstModule {}
+
+        @Module({ imports: [FirstModule] })
+        class SecondModule {}
+
+        // Importação circular declarada depois das duas classes
+        Module({ imports: [SecondModule] })(FirstModule);
+
+        await expect(scanModule(FirstModule)).rejects.toThrow(
+            "Importação circular entre módulos"
+        );
+    });
+});
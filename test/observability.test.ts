@@ -0,0 +1,180 @@
+import { describe, expect, test } from "bun:test";
+import { Container, InjectionToken, Service } from "../index";
+import type { Token } from "../index";
+import { silenceLogs } from "./helpers";
+
+silenceLogs();
+
+@Service()
+class Clock {}
+
+@Service()
+class Scheduler {
+    constructor(readonly clock: Clock) {}
+}
+
+@Service({ scope: "transient" })
+class Job {
+    constructor(readonly scheduler: Scheduler) {}
+}
+
+describe("eventos de resolução", () => {
+    test("onRegister recebe o token e o provedor registrado", () => {
+        const container = new Container();
+        const registered: Token[] = [];
+        container.onRegister(({ token, provider }) => {
+            registered.push(token);
+            expect(provider.useClass).toBe(Clock);
+        });
+
+        container.register(Clock, { useClass: Clock });
+
+        expect(registered).toEqual([Clock]);
+    });
+
+    test("onBeforeResolve é chamado para o token e suas dependências", () => {
+        const container = new Container();
+        const tokens: Token[] = [];
+        container.onBeforeResolve(({ token }) => tokens.push(token));
+
+        container.resolve(Scheduler);
+
+        expect(tokens).toEqual([Scheduler, Clock]);
+    });
+
+    test("onInstantiate informa escopo e duração de cada instância criada", () => {
+        const container = new Container();
+        const created: { token: Token; scope: string }[] = [];
+        container.onInstantiate(({ token, scope, instance, duration }) => {
+            expect(instance).toBeDefined();
+            expect(duration).toBeGreaterThanOrEqual(0);
+            created.push({ token, scope });
+        });
+
+        container.resolve(Job);
+        container.resolve(Job);
+
+        // Dependências singleton são criadas uma única vez
+        expect(created).toEqual([
+            { token: Clock, scope: "singleton" },
+            { token: Scheduler, scope: "singleton" },
+            { token: Job, scope: "transient" },
+            { token: Job, scope: "transient" },
+        ]);
+    });
+
+    test("onResolveError recebe a falha e cada token que a requisitou", () => {
+        const MISSING = new InjectionToken<string>("MISSING");
+
+        @Service()
+        class Consumer {
+            constructor(readonly value: string) {}
+        }
+
+        const container = new Container();
+        container.register(Consumer, {
+            useFactory: (value: string) => new Consumer(value),
+            inject: [MISSING],
+        });
+        const failed: Token[] = [];
+        container.onResolveError(({ token, error }) => {
+            expect(error).toBeInstanceOf(Error);
+            failed.push(token);
+        });
+
+        expect(() => container.resolve(Consumer)).toThrow();
+        expect(failed).toEqual([MISSING, Consumer]);
+    });
+
+    test("a função retornada remove o observador", () => {
+        const container = new Container();
+        const tokens: Token[] = [];
+        const off = container.onBeforeResolve(({ token }) =>
+            tokens.push(token)
+        );
+
+        container.resolve(Clock);
+        off();
+        container.resolve(Clock);
+
+        expect(tokens).toEqual([Clock]);
+    });
+
+    test("observadores do pai recebem os eventos dos filhos", () => {
+        const parent = new Container();
+        const child = parent.createChild();
+        const events: string[] = [];
+        parent.onRegister(({ token }) =>
+            events.push(`register:${String(token)}`)
+        );
+        parent.onBeforeResolve(() => events.push("beforeResolve"));
+
+        child.register("value", { useValue: 1 });
+        child.resolve<number>("value");
+
+        expect(events).toEqual(["register:value", "beforeResolve"]);
+    });
+});
+
+describe("métricas de construção", () => {
+    test("não coleta métricas sem habilitá-las", () => {
+        const container = new Container();
+        container.resolve(Scheduler);
+
+        expect(container.getMetrics()).toEqual([]);
+    });
+
+    test("acumula instâncias criadas por token e escopo", () => {
+        const container = new Container(undefined, { metrics: true });
+
+        container.resolve(Job);
+        container.resolve(Job);
+        container.resolve(Job);
+
+        const metrics = container.getMetrics();
+        const job = metrics.find((metric) => metric.token === "Job");
+        const clock = metrics.find((metric) => metric.token === "Clock");
+
+        expect(metrics).toHaveLength(3);
+        expect(job).toMatchObject({ scope: "transient", instantiations: 3 });
+        expect(clock).toMatchObject({ scope: "singleton", instantiations: 1 });
+        expect(job!.averageTime).toBeCloseTo(job!.ownTime / 3);
+        expect(job!.maxTime).toBeLessThanOrEqual(job!.totalTime);
+    });
+
+    test("ownTime desconta o tempo das dependências criadas no processo", () => {
+        @Service()
+        class SlowDependency {
+            constructor() {
+                const start = performance.now();
+                while (performance.now() - start < 20) {}
+            }
+        }
+
+        @Service()
+        class FastConsumer {
+            constructor(readonly dependency: SlowDependency) {}
+        }
+
+        const container = new Container();
+        container.enableMetrics();
+        container.resolve(FastConsumer);
+
+        const [slowest, consumer] = container.getMetrics();
+
+        // Ordenadas pelo tempo gasto nos próprios construtores
+        expect(slowest!.token).toBe("SlowDependency");
+        expect(consumer!.token).toBe("FastConsumer");
+        expect(consumer!.totalTime).toBeGreaterThanOrEqual(20);
+        expect(consumer!.ownTime).toBeLessThan(20);
+    });
+
+    test("resetMetrics descarta as métricas coletadas", () => {
+        const container = new Container(undefined, { metrics: true });
+        container.resolve(Clock);
+
+        container.resetMetrics();
+
+        expect(container.getMetrics()).toEqual([]);
+    });
+});
@@ -0,0 +1,206 @@
+import { describe, expect, test } from "bun:test";
+import {
+    Application,
+    bootstrap,
+    Controller,
+    Get,
+    GlobalContainer,
+    invokePlugins,
+    Module,
+    Service,
+    shutdownPlugins,
+} from "../index";
+import type { InfusePlugin, PluginContext } from "../index";
+import { isolateGlobalState, silenceLogs } from "./helpers";
+
+silenceLogs();
+
+/** Plugin que registra cada hook executado e falha no hook informado */
+function createPlugin(
+    name: string,
+    events: string[],
+    failOn?: keyof InfusePlugin
+): InfusePlugin {
+    const record = (phase: keyof InfusePlugin, detail = "") => {
+        events.push(`${name}:${phase}${detail}`);
+        if (phase === failOn) throw new Error(`${name} falhou`);
+    };
+    return {
+        name,
+        beforeScan: () => record("beforeScan"),
+        afterRegister: () => record("afterRegister"),
+        onRouteRegistered: (route) =>
+            record(
+                "onRouteRegistered",
+                ` ${route.method} ${route.path} ${route.controller.name}.${route.handlerName}`
+            ),
+        beforeListen: async () => record("beforeListen"),
+        onShutdown: () => record("onShutdown"),
+    };
+}
+
+describe("invokePlugins()", () => {
+    test("executa o hook de cada plugin em ordem", async () => {
+        const events: string[] = [];
+        const plugins = [
+            createPlugin("a", events),
+            { name: "sem-hooks" },
+            createPlugin("b", events),
+        ];
+
+        await invokePlugins(plugins, "beforeScan", {} as PluginContext);
+
+        expect(events).toEqual(["a:beforeScan", "b:beforeScan"]);
+    });
+
+    test("identifica o plugin e o hook que falhou e interrompe os demais", async () => {
+        const events: string[] = [];
+        const plugins = [
+            createPlugin("a", events, "afterRegister"),
+            createPlugin("b", events),
+        ];
+
+        const error = await invokePlugins(
+            plugins,
+            "afterRegister",
+            {} as PluginContext
+        ).catch((error: Error) => error);
+
+        expect(error).toBeInstanceOf(Error);
+        expect((error as Error).message).toBe(
+            "Plugin a falhou em afterRegister"
+        );
+        expect(((error as Error).cause as Error).message).toBe("a falhou");
+        expect(events).toEqual(["a:afterRegister"]);
+    });
+});
+
+describe("shutdownPlugins()", () => {
+    test("executa onShutdown na ordem inversa e ignora falhas", async () => {
+        const events: string[] = [];
+        const plugins = [
+            createPlugin("a", events),
+            createPlugin("b", events, "onShutdown"),
+            createPlugin("c", events),
+        ];
+
+        await shutdownPlugins(plugins, {} as PluginContext);
+
+        expect(events).toEqual([
+            "c:onShutdown",
+            "b:onShutdown",
+            "a:onShutdown",
+        ]);
+    });
+});
+
+describe("plugins no bootstrap", () => {
+    isolateGlobalState();
+
+    test("executa os hooks em cada fase e onShutdown quando o bootstrap é abortado", async () => {
+        const events: string[] = [];
+        const contexts: PluginContext[] = [];
+
+        @Service()
+        class UserService {}
+
+        @Controller("/users")
+        class UserController {
+            constructor(readonly users: UserService) {}
+
+            @Get("/list")
+            list() {
+                return [];
+            }
+        }
+
+        @Module({ providers: [UserService], controllers: [UserController] })
+        class AppModule {}
+
+        // A falha em beforeListen evita abrir a porta durante o teste
+        @Application({
+            module: AppModule,
+            plugins: [
+                {
+                    name: "inspector",
+                    afterRegister: (context) => {
+                        contexts.push(context);
+                    },
+                },
+                createPlugin("a", events),
+                createPlugin("b", events, "beforeListen"),
+            ],
+        })
+        class App {}
+
+        await expect(bootstrap(App)).rejects.toThrow(
+            "Plugin b falhou em beforeListen"
+        );
+
+        expect(events).toEqual([
+            "a:beforeScan",
+            "b:beforeScan",
+            "a:afterRegister",
+            "b:afterRegister",
+            "a:onRouteRegistered GET /users/list UserController.list",
+            "b:onRouteRegistered GET /users/list UserController.list",
+            "a:beforeListen",
+            "b:beforeListen",
+            "b:onShutdown",
+            "a:onShutdown",
+        ]);
+        expect(contexts[0]?.container).toBe(GlobalContainer);
+        expect(GlobalContainer.isDisposed()).toBe(false);
+    });
+
+    test("uma falha em beforeScan aborta antes de construir os módulos", async () => {
+        const events: string[] = [];
+        let created = false;
+
+        @Service()
+        class Database {
+            constructor() {
+                created = true;
+            }
+        }
+
+        @Module({ providers: [Database] })
+        class AppModule {}
+
+        @Application({
+            module: AppModule,
+            plugins: [createPlugin("a", events, "beforeScan")],
+        })
+        class App {}
+
+        await expect(bootstrap(App)).rejects.toThrow(
+            "Plugin a falhou em beforeScan"
+        );
+        expect(events).toEqual(["a:beforeScan", "a:onShutdown"]);
+        expect(created).toBe(false);
+    });
+
+    test("executa onShutdown quando um onInit obrigatório falha", async () => {
+        const events: string[] = [];
+
+        @Service()
+        class Broker {
+            async onInit() {
+                throw new Error("broker indisponível");
+            }
+        }
+
+        @Module({ providers: [Broker] })
+        class AppModule {}
+
+        @Application({
+            module: AppModule,
+            plugins: [createPlugin("a", events)],
+        })
+        class App {}
+
+        await expect(bootstrap(App)).rejects.toBeInstanceOf(AggregateError);
+        expect(events).toEqual(["a:beforeScan", "a:onShutdown"]);
+        expect(GlobalContainer.isDisposed()).toBe(false);
+    });
+});
@@ -0,0 +1,180 @@
+import { describe, expect, test } from "bun:test";
+import { Container, Inject, InjectAll, Service } from "../index";
+import { silenceLogs } from "./helpers";
+
+silenceLogs();
+
+interface HealthIndicator {
+    readonly name: string;
+}
+
+describe("multi-provedores", () => {
+    test("resolveAll e @InjectAll retornam todas as implementações, em ordem de registro", () => {
+        const HEALTH = Symbol("HealthIndicator");
+
+        @Service()
+        class HealthService {
+            constructor(
+                @InjectAll(HEALTH) readonly indicators: HealthIndicator[]
+            ) {}
+        }
+
+        const container = new Container();
+        container.register(HEALTH, { useValue: { name: "db" }, multi: true });
+        container.register(HEALTH, {
+            useValue: { name: "cache" },
+            multi: true,
+        });
+
+        const names = (indicators: HealthIndicator[]) =>
+            indicators.map((indicator) => indicator.name);
+        expect(names(container.resolveAll<HealthIndicator>(HEALTH))).toEqual([
+            "db",
+            "cache",
+        ]);
+        expect(names(container.resolve(HealthService).indicators)).toEqual([
+            "db",
+            "cache",
+        ]);
+        expect(() => container.resolve(HEALTH)).toThrow("multi-provedores");
+    });
+
+    test("serviços declarados com @Service({ provide, multi }) são coletados", () => {
+        const LISTENER = Symbol("Listener");
+
+        @Service({ provide: LISTENER, multi: true })
+        class AuditListener {}
+
+        @Service({ provide: LISTENER, multi: true })
+        class MailListener {}
+
+        const listeners = new Container().resolveAll(LISTENER);
+        expect(listeners).toHaveLength(2);
+        expect(listeners[0]).toBeInstanceOf(AuditListener);
+        expect(listeners[1]).toBeInstanceOf(MailListener);
+    });
+
+    test("sem provedores, um array vazio é injetado", () => {
+        const PLUGIN = Symbol("Plugin");
+
+        @Service()
+        class Registry {
+            constructor(@InjectAll(PLUGIN) readonly plugins: unknown[]) {}
+        }
+
+        expect(new Container().resolve(Registry).plugins).toEqual([]);
+    });
+
+    test("não permite misturar provedores simples e multi-provedores", () => {
+        const container = new Container();
+        container.register("handler", { useValue: 1, multi: true });
+        expect(() => container.register("handler", { useValue: 2 })).toThrow(
+            "possui multi-provedores"
+        );
+    });
+});
+
+describe("aliases e classes abstratas", () => {
+    test("useExisting compartilha a instância do token original", () => {
+        @Service()
+        class ConsoleLogger {}
+
+        const container = new Container();
+        container.register("logger", { useExisting: ConsoleLogger });
+
+        expect(container.resolve<ConsoleLogger>("logger")).toBe(
+            container.resolve(ConsoleLogger)
+        );
+    });
+
+    test("classes abstratas são vinculadas à implementação declarada via provide", () => {
+        abstract class Storage {
+            abstract read(key: string): string;
+        }
+
+        @Service({ provide: Storage })
+        class MemoryStorage extends Storage {
+            read(key: string) {
+                return `memory:${key}`;
+            }
+        }
+
+        @Service()
+        class Documents {
+            constructor(readonly storage: Storage) {}
+        }
+
+        const container = new Container();
+        const documents = container.resolve(Documents);
+        expect(documents.storage).toBeInstanceOf(MemoryStorage);
+        expect(documents.storage.read("a")).toBe("memory:a");
+        expect(container.resolve(Storage)).toBe(
+            container.resolve(MemoryStorage)
+        );
+    });
+});
+
+describe("factories", () => {
+    test("factories síncronas recebem as dependências de inject", () => {
+        @Service()
+        class ConfigService {
+            readonly url = "postgres://localhost";
+        }
+
+        const container = new Container();
+        container.register("connection", {
+            useFactory: (config: ConfigService, pool: number) => ({
+                url: config.url,
+                pool,
+            }),
+            inject: [ConfigService, "poolSize"],
+        });
+        container.register("poolSize", { useValue: 10 });
+
+        expect(container.resolve<object>("connection")).toEqual({
+            url: "postgres://localhost",
+            pool: 10,
+        });
+    });
+
+    test("respeitam o escopo declarado", () => {
+        let calls = 0;
+        const container = new Container();
+        container.register("singleton", {
+            useFactory: () => ({ id: ++calls }),
+        });
+        container.register("transient", {
+            useFactory: () => ({ id: ++calls }),
+            scope: "transient",
+        });
+
+        expect(container.resolve<object>("singleton")).toBe(
+            container.resolve<object>("singleton")
+        );
+        expect(container.resolve<object>("transient")).not.toBe(
+            container.resolve<object>("transient")
+        );
+    });
+
+    test("factories assíncronas exigem resolveAsync e são aguardadas pelos dependentes", async () => {
+        @Service()
+        class Repository {
+            constructor(@Inject("db") readonly db: { ready: boolean }) {}
+        }
+
+        const container = new Container();
+        container.register("db", {
+            useFactory: async () => {
+                await Promise.resolve();
+                return { ready: true };
+            },
+        });
+
+        expect(() => container.resolve(Repository)).toThrow("resolveAsync");
+
+        const repository = await container.resolveAsync(Repository);
+        expect(repository.db).toEqual({ ready: true });
+        // Depois de inicializado, o singleton também é resolvido de forma síncrona
+        expect(container.resolve<{ ready: boolean }>("db")).toBe(repository.db);
+    });
+});
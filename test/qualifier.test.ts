@@ -0,0 +1,68 @@
+import { describe, expect, test } from "bun:test";
+import {
+    Autowired,
+    Container,
+    Named,
+    Primary,
+    qualify,
+    Service,
+} from "../index";
+import { silenceLogs } from "./helpers";
+
+silenceLogs();
+
+abstract class Storage {}
+
+@Service({ provide: Storage })
+@Named("s3")
+@Primary()
+class S3Storage extends Storage {}
+
+@Service({ provide: Storage })
+@Named("local")
+class LocalStorage extends Storage {}
+
+describe("qualificadores e @Primary", () => {
+    test("@Primary define a implementação dos pontos sem qualificador", () => {
+        @Service()
+        class UploadService {
+            constructor(
+                readonly storage: Storage,
+                @Named("local") readonly cache: Storage
+            ) {}
+
+            @Autowired() @Named("s3") backup!: Storage;
+        }
+
+        const container = new Container();
+        const upload = container.resolve(UploadService);
+
+        expect(upload.storage).toBeInstanceOf(S3Storage);
+        expect(upload.cache).toBeInstanceOf(LocalStorage);
+        expect(upload.backup).toBe(upload.storage);
+    });
+
+    test("qualify() resolve pelo par token e qualificador", () => {
+        const container = new Container();
+        expect(container.resolve(qualify(Storage, "local"))).toBeInstanceOf(
+            LocalStorage
+        );
+    });
+
+    test("sem @Primary, a resolução falha listando as candidatas", () => {
+        abstract class Queue {}
+
+        @Service({ provide: Queue })
+        @Named("sqs")
+        class SqsQueue extends Queue {}
+
+        @Service({ provide: Queue })
+        @Named("memory")
+        class MemoryQueue extends Queue {}
+
+        const resolve = () => new Container().resolve(Queue);
+        expect(resolve).toThrow("Implementações ambíguas para Queue");
+        expect(resolve).toThrow("SqsQueue");
+        expect(resolve).toThrow("MemoryQueue");
+    });
+});
@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test";
+import { Container, Service } from "../index";
+import { silenceLogs } from "./helpers";
+
+silenceLogs();
+
+afterEach(() => {
+    setSystemTime();
+});
+
+@Service({ scope: "request" })
+class RequestContext {
+    released = false;
+
+    onRequestEnd() {
+        this.released = true;
+    }
+}
+
+/** Avança o relógio usado para medir a idade dos escopos */
+function advance(ms: number): void {
+    setSystemTime(new Date(Date.now() + ms));
+}
+
+describe("política de escopos de requisição", () => {
+    test("usa os padrões e herda a política do pai", () => {
+        const parent = new Container(undefined, {
+            requestScope: { warnAfter: 10_000 },
+        });
+        const child = parent.createChild();
+        child.setRequestScopePolicy({ ttl: 60_000 });
+
+        expect(new Container().getRequestScopePolicy()).toEqual({
+            ttl: 300_000,
+            warnAfter: 60_000,
+        });
+        expect(child.getRequestScopePolicy()).toEqual({
+            ttl: 60_000,
+            warnAfter: 10_000,
+        });
+    });
+
+    test("setRequestScopePolicy mantém os campos não informados", () => {
+        const container = new Container();
+        container.setRequestScopePolicy({ ttl: 1_000, warnAfter: 500 });
+        container.setRequestScopePolicy({ ttl: 2_000 });
+
+        expect(container.getRequestScopePolicy()).toEqual({
+            ttl: 2_000,
+            warnAfter: 500,
+        });
+    });
+});
+
+describe("evictExpiredRequestScopes()", () => {
+    test("descarta escopos esquecidos depois do TTL", async () => {
+        const container = new Container(undefined, {
+            requestScope: { ttl: 1_000 },
+        });
+        const context = container.resolve(RequestContext, "req-1");
+
+        expect(container.evictExpiredRequestScopes()).toEqual([]);
+
+        advance(1_500);
+        expect(container.evictExpiredRequestScopes()).toEqual(["req-1"]);
+        // O cleanup dos escopos descartados é assíncrono
+        await new Promise((resolve) => setTimeout(resolve, 1));
+
+        expect(context.released).toBe(true);
+        expect(container.resolve(RequestContext, "req-1")).not.toBe(context);
+        expect(container.getLeakReport(0).evicted).toBe(1);
+    });
+
+    test("nunca descarta escopos em execução por runInScope", async () => {
+        const container = new Container(undefined, {
+            requestScope: { ttl: 1_000 },
+        });
+
+        await container.runInScope("req-active", async () => {
+            const context = container.resolve(RequestContext);
+            advance(5_000);
+
+            expect(container.evictExpiredRequestScopes()).toEqual([]);
+            expect(container.resolve(RequestContext)).toBe(context);
+        });
+    });
+
+    test("ttl 0 desabilita a expiração", () => {
+        const container = new Container(undefined, {
+            requestScope: { ttl: 0 },
+        });
+        container.resolve(RequestContext, "req-1");
+
+        advance(24 * 60 * 60_000);
+
+        expect(container.evictExpiredRequestScopes()).toEqual([]);
+    });
+});
+
+describe("getLeakReport()", () => {
+    test("lista os escopos com idade, tokens e origem", () => {
+        const container = new Container(undefined, {
+            requestScope: { warnAfter: 1_000, ttl: 0 },
+        });
+        container.resolve(RequestContext, "req-old");
+        advance(2_000);
+        container.resolve(RequestContext, "req-new");
+
+        const report = container.getLeakReport();
+
+        expect(report.policy).toEqual({ ttl: 0, warnAfter: 1_000 });
+        expect(report.scopes).toHaveLength(1);
+        expect(report.scopes[0]).toMatchObject({
+            requestId: "req-old",
+            tokens: ["RequestContext"],
+            active: false,
+            generated: false,
+        });
+        expect(report.scopes[0]!.age).toBeGreaterThanOrEqual(2_000);
+    });
+
+    test("minAge inclui escopos mais recentes, do mais antigo ao mais recente", () => {
+        const container = new Container();
+        container.resolve(RequestContext, "req-1");
+        advance(10);
+        container.resolve(RequestContext, "req-2");
+
+        const ids = container.getLeakReport(0).scopes.map((s) => s.requestId);
+
+        expect(ids).toEqual(["req-1", "req-2"]);
+    });
+
+    test("marca escopos gerados por resoluções fora de runInScope", () => {
+        const container = new Container();
+        container.resolve(RequestContext);
+
+        const [scope] = container.getLeakReport(0).scopes;
+
+        expect(scope?.generated).toBe(true);
+    });
+
+    test("escopos liberados deixam de ser listados", async () => {
+        const container = new Container();
+        container.resolve(RequestContext, "req-1");
+
+        await container.clearRequestInstances("req-1");
+
+        expect(container.getLeakReport(0).scopes).toEqual([]);
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+import { Container, createAsyncContext, Service } from "../index";
+import { silenceLogs } from "./helpers";
+
+silenceLogs();
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+describe("contexto de requisição", () => {
+    test("createAsyncContext propaga o valor através de await", async () => {
+        const context = createAsyncContext<string>();
+
+        const seen = await context.run("req-1", async () => {
+            await tick();
+            return context.getStore();
+        });
+
+        expect(context.propagatesAsync).toBe(true);
+        expect(seen).toBe("req-1");
+        expect(context.getStore()).toBeUndefined();
+    });
+
+    test("runInScope compartilha instâncias request-scoped, inclusive após await", async () => {
+        @Service({ scope: "request" })
+        class RequestContext {}
+
+        const container = new Container();
+        const [first, second, id] = await container.runInScope(
+            "req-1",
+            async () => {
+                const first = container.resolve(RequestContext);
+                await tick();
+                return [
+                    first,
+                    container.resolve(RequestContext),
+                    container.getCurrentRequestId(),
+                ] as const;
+            }
+        );
+
+        expect(first).toBe(second);
+        expect(id).toBe("req-1");
+        expect(container.getCurrentRequestId()).toBeUndefined();
+    });
+
+    test("escopos concorrentes não compartilham instâncias", async () => {
+        @Service({ scope: "request" })
+        class RequestContext {}
+
+        const container = new Container();
+        const run = (id: string) =>
+            container.runInScope(id, async () => {
+                await tick();
+                return container.resolve(RequestContext);
+            });
+
+        const [a, b] = await Promise.all([run("req-a"), run("req-b")]);
+        expect(a).not.toBe(b);
+    });
+
+    test("as instâncias do escopo recebem onRequestEnd ao final", async () => {
+        const ended: string[] = [];
+
+        @Service({ scope: "request" })
+        class Transaction {
+            onRequestEnd() {
+                ended.push("transaction");
+            }
+        }
+
+        const container = new Container();
+        await container.runInScope("req-1", async () => {
+            container.resolve(Transaction);
+            await tick();
+            expect(ended).toEqual([]);
+        });
+
+        expect(ended).toEqual(["transaction"]);
+    });
+});
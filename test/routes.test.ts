@@ -0,0 +1,160 @@
+import { describe, expect, test } from "bun:test";
+import {
+    Controller,
+    Get,
+    Module,
+    Post,
+    Profile,
+    registerHttpRoutes,
+    scanAndRegister,
+    scanModule,
+    Service,
+    type HttpAdapter,
+} from "../index";
+import { isolateGlobalState, silenceLogs } from "./helpers";
+
+silenceLogs();
+isolateGlobalState();
+
+type Handler = (req: unknown, res: unknown) => Promise<unknown>;
+
+/** Adapter HTTP em memória que guarda os handlers montados */
+function createAdapter() {
+    const handlers = new Map<string, Handler>();
+    const adapter: HttpAdapter = {
+        init: () => {},
+        registerRoute: (method, path, handler) => {
+            handlers.set(`${method} ${path}`, handler);
+        },
+        listen: async () => {},
+    };
+    return { adapter, handlers };
+}
+
+describe("registerHttpRoutes", () => {
+    test("monta as rotas dos controladores com o caminho base", async () => {
+        @Service()
+        class UserService {
+            list() {
+                return ["ana", "bia"];
+            }
+        }
+
+        @Controller("/users")
+        class UserController {
+            constructor(private readonly users: UserService) {}
+
+            @Get("/all")
+            list() {
+                return this.users.list();
+            }
+
+            @Post("/new")
+            create() {
+                return { created: true };
+            }
+        }
+
+        await scanAndRegister();
+        const { adapter, handlers } = createAdapter();
+
+        expect(registerHttpRoutes(adapter)).toMatchObject([
+            { method: "GET", path: "/users/all" },
+            { method: "POST", path: "/users/new" },
+        ]);
+
+        const sent: unknown[] = [];
+        await handlers.get("GET /users/all")!(
+            {},
+            { send: (body: unknown) => sent.push(body) }
+        );
+        expect(sent).toEqual([["ana", "bia"]]);
+    });
+
+    test("responde com status 500 quando o handler falha", async () => {
+        @Controller("/jobs")
+        class JobController {
+            @Get("/fail")
+            fail() {
+                throw new Error("falhou");
+            }
+        }
+
+        await scanAndRegister();
+        const { adapter, handlers } = createAdapter();
+        registerHttpRoutes(adapter);
+
+        let status: number | undefined;
+        let body: any;
+        const res = {
+            status: (code: number) => {
+                status = code;
+                return res;
+            },
+            send: (payload: unknown) => {
+                body = payload;
+            },
+        };
+        await handlers.get("GET /jobs/fail")!({}, res);
+
+        expect(status).toBe(500);
+        expect(body.error).toBe("falhou");
+    });
+
+    test("ignora controladores com condições não atendidas", async () => {
+        @Controller("/debug")
+        @Profile("dev")
+        class DebugController {
+            @Get("/state")
+            state() {
+                return {};
+            }
+        }
+
+        @Controller("/health")
+        class HealthController {
+            @Get("/all")
+            check() {
+                return "ok";
+            }
+        }
+
+        await scanAndRegister({ profiles: ["prod"] });
+        const { adapter, handlers } = createAdapter();
+
+        expect(registerHttpRoutes(adapter).map((route) => route.path)).toEqual([
+            "/health/all",
+        ]);
+        expect(handlers.has("GET /debug/state")).toBe(false);
+    });
+
+    test("com um módulo raiz, monta apenas os controladores dos módulos construídos", async () => {
+        @Controller("/orders")
+        class OrderController {
+            @Get("/all")
+            list() {
+                return [];
+            }
+        }
+
+        @Controller("/legacy")
+        class LegacyController {
+            @Get("/all")
+            list() {
+                return [];
+            }
+        }
+
+        @Module({ controllers: [OrderController] })
+        class AppModule {}
+
+        await scanModule(AppModule);
+        const { adapter } = createAdapter();
+
+        expect(
+            registerHttpRoutes(adapter, { modular: true }).map(
+                (route) => route.path
+            )
+        ).toEqual(["/orders/all"]);
+    });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, test } from "bun:test";
+import {
+    Bean,
+    Configuration,
+    GlobalContainer,
+    Inject,
+    Service,
+} from "../index";
+import { createMock, createTestingModule } from "../src/testing";
+import { silenceLogs } from "./helpers";
+
+silenceLogs();
+
+@Service()
+class UserRepository {
+    findById(id: number): { id: number; name: string } | undefined {
+        throw new Error(`acesso ao banco (${id})`);
+    }
+}
+
+@Service()
+class UserService {
+    constructor(readonly repository: UserRepository) {}
+
+    getName(id: number) {
+        return this.repository.findById(id)?.name ?? "desconhecido";
+    }
+}
+
+describe("createTestingModule", () => {
+    test("registra apenas os provedores listados, fora do GlobalContainer", async () => {
+        const module = await createTestingModule({
+            providers: [UserService, UserRepository],
+        }).compile();
+
+        expect(module.get(UserService).repository).toBe(
+            module.get(UserRepository)
+        );
+        expect(GlobalContainer.has(UserService)).toBe(false);
+        await module.close();
+    });
+
+    test("overrideProvider substitui provedores", async () => {
+        const module = await createTestingModule({ providers: [UserService] })
+            .overrideProvider(UserRepository)
+            .useValue({ findById: (id) => ({ id, name: "Ana" }) })
+            .compile();
+
+        expect(module.get(UserService).getName(1)).toBe("Ana");
+        await module.close();
+    });
+
+    test("autoMock injeta mocks que registram as chamadas", async () => {
+        const module = await createTestingModule({
+            providers: [UserService],
+            autoMock: true,
+        }).compile();
+
+        const repository = module.getMock(UserRepository);
+        repository.findById.mockReturnValue({ id: 2, name: "Bia" });
+
+        expect(module.get(UserService).getName(2)).toBe("Bia");
+        expect(repository.findById.calls).toEqual([[2]]);
+        await module.close();
+    });
+
+    test("createMock cria mocks avulsos", () => {
+        const repository = createMock<UserRepository>(UserRepository);
+        repository.findById.mockImplementation((id) => ({ id, name: "Caio" }));
+
+        expect(new UserService(repository).getName(3)).toBe("Caio");
+    });
+
+    test("close() executa onDestroy dos componentes do teste", async () => {
+        const destroyed: string[] = [];
+
+        @Service()
+        class Connection {
+            onDestroy() {
+                destroyed.push("connection");
+            }
+        }
+
+        const module = await createTestingModule({
+            providers: [Connection],
+        }).compile();
+        await module.close();
+
+        expect(destroyed).toEqual(["connection"]);
+        expect(module.container.isDisposed()).toBe(true);
+    });
+
+    test("configurações listadas recebem dependências e seus beans são singletons", async () => {
+        let evaluated = 0;
+
+        @Service()
+        class Clock {
+            now() {
+                return 42;
+            }
+        }
+
+        @Configuration()
+        class TimeConfig {
+            constructor(readonly clock: Clock) {}
+
+            @Bean("startedAt")
+            startedAt() {
+                evaluated++;
+                return this.clock.now();
+            }
+        }
+
+        const module = await createTestingModule({
+            providers: [Clock, TimeConfig],
+        }).compile();
+
+        expect(module.get<number>("startedAt")).toBe(42);
+        expect(module.get<number>("startedAt")).toBe(42);
+        expect(evaluated).toBe(1);
+        await module.close();
+    });
+
+    test("implementações de tokens são procuradas apenas entre as classes do teste", async () => {
+        const NOTIFIER = Symbol("Notifier");
+
+        @Service({ provide: NOTIFIER })
+        class EmailNotifier {}
+
+        @Service({ provide: NOTIFIER })
+        class SmsNotifier {}
+
+        @Service()
+        class Alerts {
+            constructor(@Inject(NOTIFIER) readonly notifier: object) {}
+        }
+
+        const module = await createTestingModule({
+            providers: [Alerts, SmsNotifier],
+        }).compile();
+
+        expect(module.get(Alerts).notifier).toBeInstanceOf(SmsNotifier);
+        expect(module.get(Alerts).notifier).not.toBeInstanceOf(EmailNotifier);
+        await module.close();
+    });
+});
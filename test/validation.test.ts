@@ -0,0 +1,127 @@
+import { describe, expect, test } from "bun:test";
+import {
+    Container,
+    forwardRef,
+    Inject,
+    scanAndRegister,
+    Service,
+    type Lazy,
+} from "../index";
+import { isolateGlobalState, silenceLogs } from "./helpers";
+
+silenceLogs();
+
+describe("validate()", () => {
+    test("aceita um container sem problemas", () => {
+        @Service()
+        class Database {}
+
+        @Service()
+        class UserRepository {
+            constructor(readonly db: Database) {}
+        }
+
+        const container = new Container();
+        container.register(UserRepository, { useClass: UserRepository });
+
+        expect(container.validate()).toEqual({
+            valid: true,
+            unresolvable: [],
+            cycles: [],
+            scopeViolations: [],
+        });
+    });
+
+    test("reporta dependências sem provedor", () => {
+        @Service()
+        class Mailer {
+            constructor(@Inject("smtpHost") readonly host: string) {}
+        }
+
+        const container = new Container();
+        container.register(Mailer, { useClass: Mailer });
+
+        const report = container.validate();
+        expect(report.valid).toBe(false);
+        expect(report.unresolvable).toEqual([
+            { token: "Mailer", dependency: "smtpHost", reason: "missing" },
+        ]);
+    });
+
+    test("reporta ciclos, exceto os interrompidos por injeção lazy", () => {
+        @Service()
+        class A {
+            constructor(@Inject(forwardRef(() => B)) readonly b: unknown) {}
+        }
+
+        @Service()
+        class B {
+            constructor(readonly a: A) {}
+        }
+
+        @Service()
+        class C {
+            constructor(
+                @Inject(forwardRef(() => D), { lazy: true })
+                readonly d: Lazy<object>
+            ) {}
+        }
+
+        @Service()
+        class D {
+            constructor(readonly c: C) {}
+        }
+
+        const container = new Container();
+        container.register(A, { useClass: A });
+        container.register(C, { useClass: C });
+
+        const { cycles } = container.validate();
+        expect(cycles).toHaveLength(1);
+        expect(cycles[0]!.path).toContain("A");
+        expect(cycles[0]!.path).toContain("B");
+    });
+
+    test("reporta singletons que capturam dependências request-scoped via transients", () => {
+        @Service({ scope: "request" })
+        class RequestContext {}
+
+        @Service({ scope: "transient" })
+        class AuditTrail {
+            constructor(readonly context: RequestContext) {}
+        }
+
+        @Service()
+        class Reports {
+            constructor(readonly audit: AuditTrail) {}
+        }
+
+        const container = new Container();
+        container.register(Reports, { useClass: Reports });
+
+        expect(container.validate().scopeViolations).toEqual([
+            {
+                token: "Reports",
+                scope: "singleton",
+                dependency: "RequestContext",
+                dependencyScope: "request",
+                path: ["Reports", "AuditTrail", "RequestContext"],
+            },
+        ]);
+    });
+});
+
+describe("scanAndRegister({ strict: true })", () => {
+    isolateGlobalState();
+
+    test("aborta quando a validação encontra problemas", async () => {
+        @Service()
+        class Mailer {
+            constructor(@Inject("smtpHost") readonly host: string) {}
+        }
+
+        await expect(scanAndRegister({ strict: true })).rejects.toThrow(
+            "smtpHost"
+        );
+    });
+});
@@ -5,6 +5,7 @@ export default defineConfig({
     entry: {
         index: 'src/index.ts',
         'runtime/index': 'src/runtime/index.ts',
+        'testing/index': 'src/testing/index.ts',
         // Incluir arquivos da demo
         'demo/main': 'demo/main.ts',
         'demo/service': 'demo/service.ts',